@@ -1,8 +1,33 @@
-import type { PaginateOptions, PageSizePreset, Orientation, Page, PageFragment, ResolvedOptions } from './types.js';
+import type { PaginateOptions, PageSizePreset, Orientation, Page, PageFragment, ResolvedOptions, RunningStrings, OutlineEntry } from './types.js';
 import { PAGE_SIZES } from './types.js';
 import { paginate, resolveOptions } from './paginate.js';
-import { paginateV2 } from './paginate-v2.js';
+import { paginateV2, getPageSize } from './paginate-v2.js';
+import type { PageResult } from './paginate-v2.js';
 import { getHandlerRegistry } from './handlers/index.js';
+import { extractRegions, renderRegion, getSectionTitles } from './regions.js';
+import type { RegionKind, RegionTemplates } from './regions.js';
+import { getRunningStrings } from './running.js';
+import { hasTableOfContents, assignHeadingIds, buildTableOfContents, getPageNumbers } from './toc.js';
+import { hasPageReferences, resolveCrossReferences } from './refs.js';
+import { hasIndex, buildIndex } from './term-index.js';
+import { getOutline } from './outline.js';
+import { captureCanvasBitmaps } from './slice.js';
+
+/**
+ * Layout passes made at most for page numbers in generated content to settle
+ */
+const MAX_LAYOUT_PASSES = 4;
+
+/**
+ * Whether two layouts put every element on the same page
+ */
+function samePageNumbers(a: Map<string, number>, b: Map<string, number>): boolean {
+  if (a.size !== b.size) return false;
+  for (const [id, page] of a) {
+    if (b.get(id) !== page) return false;
+  }
+  return true;
+}
 
 /**
  * <folio-pages> Web Component
@@ -23,13 +48,23 @@ export class FolioElement extends HTMLElement {
     'orphan-lines',
     'widow-lines',
     'min-content-lines',
+    'text-break-mode',
     'repeat-table-header',
+    'repeat-table-footer',
+    'continued-table-caption',
+    'split-wide-tables',
+    'oversize-strategy',
+    'enable-page-rotation',
+    'footnote-mode',
+    'running-headings',
     'enable-line-wrap-markers',
     'algorithm',
   ];
 
   private originalContent: DocumentFragment | null = null;
   private pagesContainer: HTMLDivElement | null = null;
+  private regions: Record<RegionKind, RegionTemplates> | null = null;
+  private outline: OutlineEntry[] = [];
   private isPaginating = false;
   private contentObserver: MutationObserver | null = null;
   private debounceTimer: ReturnType<typeof setTimeout> | null = null;
@@ -179,11 +214,56 @@ export class FolioElement extends HTMLElement {
     const minContentLines = this.getAttribute('min-content-lines');
     if (minContentLines) options.minContentLines = parseInt(minContentLines);
 
+    const textBreakMode = this.getAttribute('text-break-mode');
+    if (textBreakMode === 'line' || textBreakMode === 'word') {
+      options.textBreakMode = textBreakMode;
+    }
+
     const repeatTableHeader = this.getAttribute('repeat-table-header');
     if (repeatTableHeader !== null) {
       options.repeatTableHeader = repeatTableHeader !== 'false';
     }
 
+    const repeatTableFooter = this.getAttribute('repeat-table-footer');
+    if (repeatTableFooter !== null) {
+      options.repeatTableFooter = repeatTableFooter !== 'false';
+    }
+
+    const continuedTableCaption = this.getAttribute('continued-table-caption');
+    if (continuedTableCaption !== null) {
+      options.continuedTableCaption = continuedTableCaption !== 'false';
+    }
+
+    const splitWideTables = this.getAttribute('split-wide-tables');
+    if (splitWideTables !== null) {
+      options.splitWideTables = splitWideTables !== 'false';
+    }
+
+    const oversizeStrategy = this.getAttribute('oversize-strategy');
+    if (oversizeStrategy === 'scale' || oversizeStrategy === 'clip' || oversizeStrategy === 'rotate') {
+      options.oversizeStrategy = oversizeStrategy;
+    }
+
+    const enablePageRotation = this.getAttribute('enable-page-rotation');
+    if (enablePageRotation !== null) {
+      options.enablePageRotation = enablePageRotation !== 'false';
+    }
+
+    const footnoteMode = this.getAttribute('footnote-mode');
+    if (footnoteMode === 'footnotes' || footnoteMode === 'endnotes') {
+      options.footnoteMode = footnoteMode;
+    }
+
+    // "chapter:1, section:2" -> { chapter: 1, section: 2 }
+    const runningHeadings = this.getAttribute('running-headings');
+    if (runningHeadings) {
+      options.runningHeadings = {};
+      for (const entry of runningHeadings.split(',')) {
+        const [name, level] = entry.split(':').map(part => part.trim());
+        if (name && parseInt(level)) options.runningHeadings[name] = parseInt(level);
+      }
+    }
+
     const enableLineWrapMarkers = this.getAttribute('enable-line-wrap-markers');
     if (enableLineWrapMarkers !== null) {
       options.enableLineWrapMarkers = enableLineWrapMarkers !== 'false';
@@ -213,75 +293,26 @@ export class FolioElement extends HTMLElement {
     }
 
     try {
-      // Create a hidden measurement container
-      const measureContainer = document.createElement('div');
-      measureContainer.className = 'folio-measure';
-
       const options = this.getOptions();
-      const pageWidth = options.pageWidth || PAGE_SIZES.A4.width;
-      measureContainer.style.cssText = `
-        position: absolute;
-        left: -9999px;
-        top: 0;
-        visibility: hidden;
-        pointer-events: none;
-        width: ${pageWidth}px;
-      `;
-
-      // Clone content into measurement container
-      const contentClone = this.originalContent.cloneNode(true);
-      measureContainer.appendChild(contentClone);
-
-      // Append to 'this' so it inherits CSS selectors like "folio-pages h1"
-      this.appendChild(measureContainer);
 
-      // Wait for styles to apply
-      await new Promise(resolve => requestAnimationFrame(resolve));
+      // A table of contents, page references and an index show page numbers that are
+      // only known after layout, and change the layout: lay out again until they settle
+      let pageNumbers = new Map<string, number>();
+      let detail = await this.layout(options, pageNumbers);
 
-      // Check which algorithm to use (default to v2)
-      const algorithm = this.getAttribute('algorithm') || 'v2';
+      for (let pass = 2; detail.hasPageReferences && pass <= MAX_LAYOUT_PASSES; pass++) {
+        const laidOut = getPageNumbers(this.getPageElements());
+        if (samePageNumbers(pageNumbers, laidOut)) break;
 
-      if (algorithm === 'v2') {
-        // Use V2 algorithm (fill until overflow)
-        const resolved = resolveOptions(options);
-        const v2Pages = paginateV2(measureContainer, resolved);
-
-        // Clean up measurement container
-        if (measureContainer.parentNode) {
-          measureContainer.parentNode.removeChild(measureContainer);
-        }
+        pageNumbers = laidOut;
+        detail = await this.layout(options, pageNumbers);
+      }
 
-        // Render V2 pages
-        this.renderPagesV2(v2Pages, resolved);
-
-        // Dispatch event
-        this.dispatchEvent(new CustomEvent('paginated', {
-          detail: {
-            totalPages: v2Pages.length,
-            options: resolved,
-          },
-        }));
-      } else {
-        // Use V1 algorithm (pre-measure)
-        const result = await paginate(measureContainer, options);
-
-        // Clean up measurement container
-        if (measureContainer.parentNode) {
-          measureContainer.parentNode.removeChild(measureContainer);
-        }
+      this.outline = getOutline(this.getPageElements());
 
-        // Render pages
-        this.renderPages(result.pages, result.options);
-
-        // Dispatch event
-        this.dispatchEvent(new CustomEvent('paginated', {
-          detail: {
-            totalPages: result.totalPages,
-            pages: result.pages,
-            options: result.options,
-          },
-        }));
-      }
+      this.dispatchEvent(new CustomEvent('paginated', {
+        detail: { ...detail.result, outline: this.outline },
+      }));
     } catch (error) {
       console.error('Folio pagination error:', error);
       this.dispatchEvent(new CustomEvent('error', { detail: error }));
@@ -295,10 +326,99 @@ export class FolioElement extends HTMLElement {
     }
   }
 
+  /**
+   * Lay out and render the content once, filling generated content with the
+   * page numbers of the previous pass
+   */
+  private async layout(options: PaginateOptions, pageNumbers: Map<string, number>): Promise<{
+    result: { totalPages: number; pages: Page[] | PageResult[]; options: ResolvedOptions };
+    hasPageReferences: boolean;
+  }> {
+    // Create a hidden measurement container
+    const measureContainer = document.createElement('div');
+    measureContainer.className = 'folio-measure';
+
+    const pageWidth = options.pageWidth || PAGE_SIZES.A4.width;
+    measureContainer.style.cssText = `
+      position: absolute;
+      left: -9999px;
+      top: 0;
+      visibility: hidden;
+      pointer-events: none;
+      width: ${pageWidth}px;
+    `;
+
+    // Clone content into measurement container
+    const contentClone = this.originalContent!.cloneNode(true) as DocumentFragment;
+    captureCanvasBitmaps(this.originalContent!, contentClone);
+
+    // Header and footer templates are rendered on every page, not paginated
+    this.regions = extractRegions(contentClone);
+
+    const pageReferences = hasTableOfContents(contentClone) || hasPageReferences(contentClone) || hasIndex(contentClone);
+    assignHeadingIds(contentClone);
+    resolveCrossReferences(contentClone, pageNumbers);
+    buildTableOfContents(contentClone, pageNumbers);
+    buildIndex(contentClone, pageNumbers);
+    measureContainer.appendChild(contentClone);
+
+    // Append to 'this' so it inherits CSS selectors like "folio-pages h1"
+    this.appendChild(measureContainer);
+
+    // Wait for styles to apply
+    await new Promise(resolve => requestAnimationFrame(resolve));
+
+    // Check which algorithm to use (default to v2)
+    const algorithm = this.getAttribute('algorithm') || 'v2';
+
+    if (algorithm === 'v2') {
+      // Use V2 algorithm (fill until overflow)
+      const resolved = resolveOptions(options);
+      const v2Pages = paginateV2(measureContainer, resolved);
+
+      // Clean up measurement container
+      if (measureContainer.parentNode) {
+        measureContainer.parentNode.removeChild(measureContainer);
+      }
+
+      // Render V2 pages
+      this.renderPagesV2(v2Pages, resolved);
+
+      return {
+        result: { totalPages: v2Pages.length, pages: v2Pages, options: resolved },
+        hasPageReferences: pageReferences,
+      };
+    }
+
+    // Use V1 algorithm (pre-measure)
+    const result = await paginate(measureContainer, options);
+
+    // Clean up measurement container
+    if (measureContainer.parentNode) {
+      measureContainer.parentNode.removeChild(measureContainer);
+    }
+
+    // Render pages
+    this.renderPages(result.pages, result.options);
+
+    return {
+      result: { totalPages: result.totalPages, pages: result.pages, options: result.options },
+      hasPageReferences: pageReferences,
+    };
+  }
+
+  /**
+   * Rendered pages, in order
+   */
+  private getPageElements(): HTMLElement[] {
+    if (!this.pagesContainer) return [];
+    return Array.from(this.pagesContainer.querySelectorAll<HTMLElement>(':scope > .folio-page'));
+  }
+
   /**
    * Render paginated pages
    */
-  private renderPages(pages: Page[], options: { pageWidth: number; pageHeight: number; padding: { top: number; right: number; bottom: number; left: number } }) {
+  private renderPages(pages: Page[], options: ResolvedOptions) {
     if (!this.pagesContainer || !this.originalContent) return;
 
     this.pagesContainer.innerHTML = '';
@@ -312,6 +432,7 @@ export class FolioElement extends HTMLElement {
       const pageEl = document.createElement('div');
       pageEl.className = 'folio-page';
       pageEl.setAttribute('data-page', String(pageIndex + 1));
+      pageEl.setAttribute('data-orientation', page.orientation);
       pageEl.style.cssText = `
         width: ${options.pageWidth}px;
         height: ${options.pageHeight}px;
@@ -337,6 +458,16 @@ export class FolioElement extends HTMLElement {
       pageEl.appendChild(contentEl);
       this.pagesContainer!.appendChild(pageEl);
     });
+
+    // V1 pages only know their fragments: read the running strings from the rendered pages
+    const pageEls = this.getPageElements();
+    const running = getRunningStrings(pageEls, options.runningHeadings);
+    pages.forEach((page, index) => {
+      page.running = running[index];
+      this.setRunningAttributes(pageEls[index], running[index]);
+    });
+
+    this.renderRegions(options.padding, running);
   }
 
   /**
@@ -357,18 +488,23 @@ export class FolioElement extends HTMLElement {
   /**
    * Render V2 paginated pages (simpler - just DOM elements)
    */
-  private renderPagesV2(pages: { element: HTMLElement; pageNumber: number }[], options: ResolvedOptions) {
+  private renderPagesV2(pages: PageResult[], options: ResolvedOptions) {
     if (!this.pagesContainer) return;
 
     this.pagesContainer.innerHTML = '';
 
     pages.forEach((page) => {
+      // Landscape sections get pages with width and height swapped
+      const { pageWidth, pageHeight } = getPageSize(page.orientation, options);
+
       const pageEl = document.createElement('div');
       pageEl.className = 'folio-page';
       pageEl.setAttribute('data-page', String(page.pageNumber));
+      pageEl.setAttribute('data-orientation', page.orientation);
+      this.setRunningAttributes(pageEl, page.running);
       pageEl.style.cssText = `
-        width: ${options.pageWidth}px;
-        height: ${options.pageHeight}px;
+        width: ${pageWidth}px;
+        height: ${pageHeight}px;
         padding: ${options.padding.top}px ${options.padding.right}px ${options.padding.bottom}px ${options.padding.left}px;
         box-sizing: border-box;
         background: white;
@@ -383,6 +519,46 @@ export class FolioElement extends HTMLElement {
       pageEl.appendChild(contentEl);
       this.pagesContainer!.appendChild(pageEl);
     });
+
+    this.renderRegions(options.padding, pages.map(page => page.running));
+  }
+
+  /**
+   * Expose the running strings of a page as data attributes:
+   * data-running-<name> (first value on the page), data-running-<name>-start and -last
+   */
+  private setRunningAttributes(pageEl: HTMLElement, running: RunningStrings) {
+    for (const [name, value] of Object.entries(running)) {
+      const key = name.toLowerCase().replace(/[^a-z0-9-]/g, '-');
+      pageEl.setAttribute(`data-running-${key}`, value.first);
+      pageEl.setAttribute(`data-running-${key}-start`, value.start);
+      pageEl.setAttribute(`data-running-${key}-last`, value.last);
+    }
+  }
+
+  /**
+   * Add the running header and footer to each rendered page, in its padding
+   */
+  private renderRegions(padding: { top: number; right: number; bottom: number; left: number }, running: RunningStrings[]) {
+    if (!this.pagesContainer || !this.regions) return;
+
+    const pageEls = this.getPageElements();
+    const sections = getSectionTitles(pageEls);
+
+    pageEls.forEach((pageEl, index) => {
+      const context = {
+        page: index + 1,
+        pages: pageEls.length,
+        section: sections[index],
+        title: document.title,
+        running: running[index] ?? {},
+      };
+
+      for (const kind of ['header', 'footer'] as const) {
+        const region = renderRegion(kind, this.regions![kind], context, padding);
+        if (region) pageEl.appendChild(region);
+      }
+    });
   }
 
   /**
@@ -465,6 +641,13 @@ export class FolioElement extends HTMLElement {
     this.doPaginate();
   }
 
+  /**
+   * Headings of the last pagination as a tree, with their id and page number
+   */
+  public getOutline(): OutlineEntry[] {
+    return this.outline;
+  }
+
   /**
    * Generate print-ready HTML string for PDF generation
    * @param options.includeStyles - Include computed styles (default: true)
@@ -477,9 +660,10 @@ export class FolioElement extends HTMLElement {
       return '';
     }
 
-    const pageOptions = this.getOptions();
-    const pageWidth = pageOptions.pageWidth || PAGE_SIZES.A4.width;
-    const pageHeight = pageOptions.pageHeight || PAGE_SIZES.A4.height;
+    const pageOptions = resolveOptions(this.getOptions());
+    const { pageWidth, pageHeight } = pageOptions;
+    const landscape = getPageSize('landscape', pageOptions);
+    const portrait = getPageSize('portrait', pageOptions);
 
     // Collect styles from the document
     let styles = '';
@@ -512,6 +696,17 @@ export class FolioElement extends HTMLElement {
         margin: 0;
       }
 
+      /* Pages of mixed orientation use named pages with their own size */
+      @page folio-portrait {
+        size: ${portrait.pageWidth}px ${portrait.pageHeight}px;
+        margin: 0;
+      }
+
+      @page folio-landscape {
+        size: ${landscape.pageWidth}px ${landscape.pageHeight}px;
+        margin: 0;
+      }
+
       * {
         -webkit-print-color-adjust: exact !important;
         print-color-adjust: exact !important;
@@ -533,6 +728,18 @@ export class FolioElement extends HTMLElement {
         background: white;
       }
 
+      .folio-print-page[data-orientation="portrait"] {
+        page: folio-portrait;
+        width: ${portrait.pageWidth}px;
+        height: ${portrait.pageHeight}px;
+      }
+
+      .folio-print-page[data-orientation="landscape"] {
+        page: folio-landscape;
+        width: ${landscape.pageWidth}px;
+        height: ${landscape.pageHeight}px;
+      }
+
       .folio-print-page:last-child {
         page-break-after: auto;
       }
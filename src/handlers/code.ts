@@ -1,5 +1,6 @@
 import { BaseHandler, SplitPoint } from './base.js';
 import type { MeasuredBlock, ResolvedOptions } from '../types.js';
+import { getLineBoundaries, cloneLines } from '../split.js';
 
 /**
  * Handler for code blocks (pre, code)
@@ -62,9 +63,10 @@ export class CodeHandler extends BaseHandler {
       return el.cloneNode(true) as HTMLElement;
     }
 
-    // Partial render - extract specific lines
-    const lines = this.getLines(el);
-    const selectedLines = lines.slice(startLine, endLine);
+    // Partial render - extract specific lines, keeping highlight markup
+    const codeEl = el.querySelector('code');
+    const lines = getLineBoundaries(codeEl || el);
+    const selectedLines = cloneLines(codeEl || el, lines, startLine, Math.min(endLine ?? lines.length, lines.length));
 
     // Create new pre element with same attributes
     const clone = document.createElement(el.tagName) as HTMLElement;
@@ -73,17 +75,15 @@ export class CodeHandler extends BaseHandler {
     }
 
     // Check if there's a code element inside
-    const codeEl = el.querySelector('code');
-
     if (codeEl) {
       const codeClone = document.createElement('code');
       for (const attr of codeEl.attributes) {
         codeClone.setAttribute(attr.name, attr.value);
       }
-      codeClone.textContent = selectedLines.join('\n');
+      codeClone.appendChild(selectedLines);
       clone.appendChild(codeClone);
     } else {
-      clone.textContent = selectedLines.join('\n');
+      clone.appendChild(selectedLines);
     }
 
     // Add padding indicator at top if this is a continuation
@@ -1,5 +1,6 @@
 import { BaseHandler, SplitPoint } from './base.js';
 import type { MeasuredBlock, ResolvedOptions } from '../types.js';
+import { getListItemOrdinal } from '../split.js';
 
 /**
  * Flattened list item for linear splitting
@@ -269,16 +270,23 @@ export class ListHandler extends BaseHandler {
       // Open new nested lists if going deeper
       while (currentDepth < item.depth) {
         // We need a parent LI to attach nested list to
-        // This shouldn't happen if data is correct, but handle gracefully
-        if (liStack.length === 0) {
-          // Create a placeholder LI
-          const placeholderLi = document.createElement('li');
-          listStack[listStack.length - 1].appendChild(placeholderLi);
+        // (missing when the fragment starts inside a nested list)
+        if (liStack.length <= currentDepth) {
+          // Create a placeholder LI continuing the original parent item, without its marker
+          const originalLi = this.getAncestorItem(item.element, item.depth - currentDepth);
+          const placeholderLi = originalLi
+            ? originalLi.cloneNode(false) as HTMLElement
+            : document.createElement('li');
+          placeholderLi.style.listStyleType = 'none';
+          this.appendItem(listStack[listStack.length - 1], placeholderLi, originalLi);
           liStack.push(placeholderLi);
         }
 
-        // Create nested list
-        const nestedList = document.createElement(item.parentListTag);
+        // Create nested list (a shallow copy of the original, to keep start/reversed)
+        const originalList = this.getAncestorItem(item.element, item.depth - currentDepth - 1)?.parentElement;
+        const nestedList = originalList
+          ? originalList.cloneNode(false) as HTMLElement
+          : document.createElement(item.parentListTag);
         liStack[liStack.length - 1].appendChild(nestedList);
         listStack.push(nestedList);
         currentDepth++;
@@ -286,7 +294,7 @@ export class ListHandler extends BaseHandler {
 
       // Clone the LI, but handle nested lists specially
       const liClone = this.cloneLiWithoutNestedList(item.element);
-      listStack[listStack.length - 1].appendChild(liClone);
+      this.appendItem(listStack[listStack.length - 1], liClone, item.element);
 
       // If this item has a nested list, prepare for nested items
       if (item.hasNestedList && item.nestedListTag) {
@@ -305,6 +313,29 @@ export class ListHandler extends BaseHandler {
     return rootList;
   }
 
+  /**
+   * Add an item to a reconstructed list. The first item of an ordered list sets
+   * its start, so numbering continues from the previous fragment.
+   */
+  private appendItem(list: HTMLElement, li: HTMLElement, originalLi: HTMLElement | null): void {
+    if (originalLi && !list.querySelector(':scope > li')) {
+      const ordinal = getListItemOrdinal(originalLi);
+      if (ordinal !== null) list.setAttribute('start', String(ordinal));
+    }
+    list.appendChild(li);
+  }
+
+  /**
+   * Climb from a list item to the item containing it `levels` nesting levels up
+   */
+  private getAncestorItem(li: HTMLElement, levels: number): HTMLElement | null {
+    let current: HTMLElement | null = li;
+    for (let i = 0; i < levels && current; i++) {
+      current = current.parentElement?.closest('li') ?? null;
+    }
+    return current;
+  }
+
   /**
    * Clone an LI element but remove any nested UL/OL
    */
@@ -1,5 +1,6 @@
 import { BaseHandler, SplitPoint } from './base.js';
 import type { MeasuredBlock, ResolvedOptions } from '../types.js';
+import { measureColumnWidths, applyColumnWidths } from '../tables.js';
 
 /**
  * Handler for tables with proper row-based splitting
@@ -23,6 +24,12 @@ export class TableHandler extends BaseHandler {
       block.theadHeight = thead.offsetHeight;
     }
 
+    // Column widths, so every fragment lines up with the others
+    const columnWidths = measureColumnWidths(table);
+    if (columnWidths.length > 0) {
+      block.columnWidths = columnWidths;
+    }
+
     // Measure rows (children)
     const rows = table.querySelectorAll('tbody tr');
     if (rows.length > 0) {
@@ -129,6 +136,11 @@ export class TableHandler extends BaseHandler {
       clone.setAttribute(attr.name, attr.value);
     }
 
+    // Keep column groups (styling)
+    for (const colgroup of originalTable.querySelectorAll(':scope > colgroup')) {
+      clone.appendChild(colgroup.cloneNode(true));
+    }
+
     // Add thead (always include in split tables)
     if (block.thead) {
       const theadClone = block.thead.cloneNode(true) as HTMLElement;
@@ -143,6 +155,11 @@ export class TableHandler extends BaseHandler {
     }
     clone.appendChild(tbody);
 
+    // Lay out with the widths of the whole table
+    if (block.columnWidths) {
+      applyColumnWidths(clone, block.columnWidths);
+    }
+
     return clone;
   }
 }
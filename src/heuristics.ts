@@ -344,60 +344,42 @@ export function shouldRotateForImage(
 }
 
 /**
- * Check for rowspan in table rows
+ * Check for rowspan in table rows.
+ * Returns groups of row indices (over all tbody rows, in order) tied together by rowspan.
+ * Spans are clamped to their row group, as browsers do.
  */
 export function getRowspanGroups(table: HTMLTableElement): number[][] {
   const groups: number[][] = [];
-  const rows = table.querySelectorAll('tbody tr');
-  const activeRowspans = new Map<number, number>(); // col -> remaining rows
-
-  rows.forEach((row, rowIndex) => {
-    const cells = row.querySelectorAll('td, th');
-    let colIndex = 0;
-
-    cells.forEach((cell) => {
-      // Skip columns with active rowspans
-      while (activeRowspans.has(colIndex) && activeRowspans.get(colIndex)! > 0) {
-        colIndex++;
-      }
-
-      const rowspan = parseInt(cell.getAttribute('rowspan') || '1');
-      if (rowspan > 1) {
-        activeRowspans.set(colIndex, rowspan - 1);
-
-        // Find or create group
-        let foundGroup = false;
-        for (const group of groups) {
-          if (group.includes(rowIndex)) {
-            foundGroup = true;
-            for (let i = 1; i < rowspan; i++) {
-              if (!group.includes(rowIndex + i)) {
-                group.push(rowIndex + i);
-              }
-            }
-            break;
-          }
+  let offset = 0;
+
+  for (const body of Array.from(table.tBodies)) {
+    const rows = Array.from(body.rows);
+    let group: number[] | null = null;
+    let groupEnd = -1; // Last row covered by the current group
+
+    for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+      if (rowIndex > groupEnd) group = null;
+
+      for (const cell of Array.from(rows[rowIndex].cells)) {
+        // rowspan="0" spans to the end of the row group
+        const rowspan = parseInt(cell.getAttribute('rowspan') || '1');
+        const span = Math.min(rowspan === 0 ? rows.length : rowspan, rows.length - rowIndex);
+        if (!(span > 1)) continue;
+
+        if (!group) {
+          group = [offset + rowIndex];
+          groups.push(group);
+          groupEnd = rowIndex;
         }
-
-        if (!foundGroup) {
-          const newGroup = [rowIndex];
-          for (let i = 1; i < rowspan; i++) {
-            newGroup.push(rowIndex + i);
-          }
-          groups.push(newGroup);
+        while (groupEnd < rowIndex + span - 1) {
+          groupEnd++;
+          group.push(offset + groupEnd);
         }
       }
+    }
 
-      colIndex++;
-    });
-
-    // Decrement active rowspans
-    activeRowspans.forEach((count, col) => {
-      if (count > 0) {
-        activeRowspans.set(col, count - 1);
-      }
-    });
-  });
+    offset += rows.length;
+  }
 
   return groups;
 }
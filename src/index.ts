@@ -4,6 +4,10 @@ export type {
   PageSizePreset,
   Orientation,
   OversizeStrategy,
+  TextBreakMode,
+  FootnoteMode,
+  RunningStrings,
+  OutlineEntry,
   PaginateOptions,
   ResolvedOptions,
   MeasuredBlock,
@@ -0,0 +1,256 @@
+/**
+ * Footnote utilities
+ *
+ * Footnotes are taken out of the flow before pagination and replaced by a
+ * numbered reference. While a page is filled, the notes of the references on
+ * it are laid out in a footnote area at the bottom of the page, and the height
+ * left for content shrinks by the height of that area.
+ *
+ * In endnotes mode, the notes are gathered instead into a notes section at the
+ * end of their chapter (or of the document), which is paginated like any content.
+ */
+
+import { getWordBoundaries, cloneBetween } from './split.js';
+
+/**
+ * Attribute set on footnote references (value: the footnote number)
+ */
+export const FOOTNOTE_REF_ATTR = 'data-folio-footnote-ref';
+
+/**
+ * Take the footnotes out of a container: elements with `data-folio-footnote`,
+ * and `<aside role="doc-footnote">`. Each is replaced by a numbered reference,
+ * or numbers the link pointing to it (`<a href="#id">`) when there is one.
+ * Returns the note elements, by number, in document order.
+ */
+export function extractFootnotes(root: HTMLElement): Map<string, HTMLElement> {
+  const notes = new Map<string, HTMLElement>();
+
+  getNoteSources(root).forEach(({ source, link }, index) => {
+    const number = String(index + 1);
+    notes.set(number, createNote(source, number));
+
+    const ref = link ?? document.createElement('sup');
+    ref.setAttribute(FOOTNOTE_REF_ATTR, number);
+    ref.classList.add('folio-footnote-ref');
+    ref.textContent = number;
+
+    if (link) {
+      link.setAttribute('href', `#folio-footnote-${number}`);
+      source.remove();
+    } else {
+      source.replaceWith(ref);
+    }
+  });
+
+  return notes;
+}
+
+/**
+ * Gather the footnotes of a container into endnotes: each note is replaced by a
+ * numbered reference linking to it, and listed (with a link back) in a notes
+ * section at the end of its `<section data-folio-chapter>`, or of the container.
+ * The section's heading is the chapter's `data-folio-endnotes-title`, or "Notes".
+ */
+export function extractEndnotes(root: HTMLElement): void {
+  const lists = new Map<HTMLElement, HTMLOListElement>();
+
+  getNoteSources(root).forEach(({ source, link }, index) => {
+    const number = String(index + 1);
+    const chapter = (link ?? source).closest<HTMLElement>('section[data-folio-chapter]') ?? root;
+
+    let list = lists.get(chapter);
+    if (!list) {
+      list = createEndnotesSection(chapter, lists.size + 1);
+      lists.set(chapter, list);
+    }
+    list.appendChild(createEndnote(source, number));
+
+    // Reference: the link to an aside note, or a new superscript link
+    let ref: HTMLElement;
+    if (link) {
+      ref = link;
+      source.remove();
+    } else {
+      ref = document.createElement('a');
+      const sup = document.createElement('sup');
+      sup.className = 'folio-endnote-ref';
+      sup.appendChild(ref);
+      source.replaceWith(sup);
+    }
+    ref.id = `folio-endnote-ref-${number}`;
+    ref.setAttribute('href', `#folio-endnote-${number}`);
+    ref.textContent = number;
+  });
+}
+
+/**
+ * Add an empty notes section at the end of a chapter (or the document) and return its list.
+ * Its heading gets an id (folio-endnotes-1, -2...) so it can be linked to like any other.
+ */
+function createEndnotesSection(chapter: HTMLElement, index: number): HTMLOListElement {
+  const section = document.createElement('section');
+  section.className = 'folio-endnotes';
+  section.setAttribute('role', 'doc-endnotes');
+
+  const heading = document.createElement('h2');
+  heading.id = `folio-endnotes-${index}`;
+  heading.textContent = chapter.getAttribute('data-folio-endnotes-title') ?? 'Notes';
+
+  const list = document.createElement('ol');
+  section.append(heading, list);
+  chapter.appendChild(section);
+  return list;
+}
+
+/**
+ * Create the list item of an endnote, ending with a link back to its reference
+ */
+function createEndnote(source: HTMLElement, number: string): HTMLLIElement {
+  const item = document.createElement('li');
+  item.className = 'folio-endnote';
+  item.id = `folio-endnote-${number}`;
+  item.value = parseInt(number);
+  item.append(...Array.from(source.childNodes));
+
+  const back = document.createElement('a');
+  back.className = 'folio-endnote-backlink';
+  back.setAttribute('href', `#folio-endnote-ref-${number}`);
+  back.setAttribute('role', 'doc-backlink');
+  back.textContent = '↩';
+
+  // Keep the link on the last line of a note made of paragraphs
+  const last = item.lastElementChild;
+  const target = last && last.tagName === 'P' && !last.nextSibling?.textContent?.trim() ? last : item;
+  target.append(' ', back);
+
+  return item;
+}
+
+/**
+ * Find the footnotes in a container, with the link referencing each (if any),
+ * in order of their references
+ */
+function getNoteSources(root: HTMLElement): { source: HTMLElement; link: HTMLAnchorElement | null }[] {
+  const sources = Array.from(root.querySelectorAll<HTMLElement>('[data-folio-footnote], aside[role="doc-footnote"]'))
+    // Notes inside notes stay part of their note
+    .filter(source => !source.parentElement?.closest('[data-folio-footnote], aside[role="doc-footnote"]'));
+
+  const references = sources.map(source => ({ source, link: findNoteLink(root, source) }));
+  references.sort((a, b) => {
+    const position = (a.link ?? a.source).compareDocumentPosition(b.link ?? b.source);
+    return position & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1;
+  });
+
+  return references;
+}
+
+/**
+ * Find the link referencing a footnote with an id, if any
+ */
+function findNoteLink(root: HTMLElement, source: HTMLElement): HTMLAnchorElement | null {
+  if (!source.id) return null;
+  const links = Array.from(root.querySelectorAll<HTMLAnchorElement>('a[href^="#"]'));
+  return links.find(link => link.getAttribute('href') === `#${source.id}`) ?? null;
+}
+
+/**
+ * Create the element shown in the footnote area: the note's content,
+ * starting with its number
+ */
+function createNote(source: HTMLElement, number: string): HTMLElement {
+  const note = document.createElement('div');
+  note.className = 'folio-footnote';
+  note.id = `folio-footnote-${number}`;
+  note.setAttribute('data-folio-footnote-number', number);
+  note.append(...Array.from(source.childNodes));
+
+  const marker = document.createElement('sup');
+  marker.className = 'folio-footnote-number';
+  marker.textContent = number;
+
+  // Keep the number on the first line of a note made of paragraphs
+  const first = Array.from(note.childNodes).find(node => node.nodeType !== Node.TEXT_NODE || node.textContent?.trim());
+  const target = first && (first as Element).tagName === 'P' ? first as HTMLElement : note;
+  target.insertBefore(document.createTextNode(' '), target.firstChild);
+  target.insertBefore(marker, target.firstChild);
+
+  return note;
+}
+
+/**
+ * Create the footnote area of a page
+ */
+export function createFootnoteArea(): HTMLElement {
+  const area = document.createElement('div');
+  area.className = 'folio-footnotes';
+  area.style.cssText = `
+    position: absolute;
+    left: 0;
+    right: 0;
+    font-size: 0.8em;
+    border-top: 1px solid rgba(128,128,128,0.5);
+    padding-top: 4px;
+  `;
+  return area;
+}
+
+/**
+ * Cut the notes of a footnote area so it is no taller than `space`.
+ * The notes (or parts of a note) that don't fit are removed and returned,
+ * to continue at the top of the next page's footnote area.
+ * With `force` (a page holding nothing but notes, or a note already carried
+ * from the page before without progress), a first note that can't be cut at a
+ * word is placed anyway, clipped to the space, so the notes move on.
+ */
+export function splitFootnoteArea(area: HTMLElement, space: number, force = false): HTMLElement[] {
+  const rest: HTMLElement[] = [];
+
+  while (area.lastElementChild && area.offsetHeight > space) {
+    rest.unshift(area.lastElementChild as HTMLElement);
+    area.lastElementChild.remove();
+  }
+
+  // Fit as many words of the first removed note as possible
+  const note = rest[0];
+  if (!note) return rest;
+
+  const words = getWordBoundaries(note);
+  let low = 1;
+  let high = words.length - 1;
+  let best = 0;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const part = cloneBetween(note, null, words[mid]);
+    area.appendChild(part);
+    const fits = area.offsetHeight <= space;
+    part.remove();
+
+    if (fits) {
+      best = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  if (best > 0) {
+    area.appendChild(cloneBetween(note, null, words[best]));
+
+    const continued = cloneBetween(note, words[best], null);
+    continued.removeAttribute('id');
+    continued.classList.add('folio-footnote-continued');
+    rest[0] = continued;
+  } else if (force && area.childElementCount === 0) {
+    // A note with a single word, or an image taller than the page
+    const padding = area.offsetHeight;
+    note.classList.add('folio-footnote-clipped');
+    note.style.maxHeight = `${Math.max(0, space - padding)}px`;
+    note.style.overflow = 'hidden';
+    area.appendChild(note);
+    rest.shift();
+  }
+
+  return rest;
+}
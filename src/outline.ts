@@ -0,0 +1,49 @@
+/**
+ * Document outline
+ *
+ * The headings of the rendered pages as a tree, each with the page it landed
+ * on, for sidebars, navigators and PDF bookmarks.
+ */
+
+import type { OutlineEntry } from './types.js';
+
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6';
+
+/**
+ * Headings of a rendered page's flow, leaving out those quoted in its footnotes
+ * and those repeated in its header and footer
+ */
+export function getPageHeadings(page: HTMLElement, selector = HEADING_SELECTOR): HTMLElement[] {
+  return Array.from(page.querySelectorAll<HTMLElement>(selector))
+    .filter(heading => !heading.closest('.folio-footnotes, .folio-page-header, .folio-page-footer'));
+}
+
+/**
+ * Build the outline of rendered pages: each heading holds the headings of
+ * lower levels that follow it, up to the next heading of its level or higher
+ */
+export function getOutline(pages: HTMLElement[]): OutlineEntry[] {
+  const outline: OutlineEntry[] = [];
+  // Open entries, from the outermost level
+  const stack: OutlineEntry[] = [];
+
+  pages.forEach((page, index) => {
+    for (const heading of getPageHeadings(page)) {
+      const entry: OutlineEntry = {
+        text: (heading.textContent || '').replace(/\s+/g, ' ').trim(),
+        level: parseInt(heading.tagName.substring(1)),
+        id: heading.id,
+        page: index + 1,
+        children: [],
+      };
+
+      while (stack.length > 0 && stack[stack.length - 1].level >= entry.level) {
+        stack.pop();
+      }
+      (stack.length > 0 ? stack[stack.length - 1].children : outline).push(entry);
+      stack.push(entry);
+    }
+  });
+
+  return outline;
+}
@@ -50,13 +50,20 @@ export function resolveOptions(options: PaginateOptions = {}): ResolvedOptions {
   if (options.orphanLines !== undefined) resolved.orphanLines = options.orphanLines;
   if (options.widowLines !== undefined) resolved.widowLines = options.widowLines;
   if (options.minContentLines !== undefined) resolved.minContentLines = options.minContentLines;
+  if (options.textBreakMode !== undefined) resolved.textBreakMode = options.textBreakMode;
   if (options.minItemsForSplit !== undefined) resolved.minItemsForSplit = options.minItemsForSplit;
   if (options.minRowsForSplit !== undefined) resolved.minRowsForSplit = options.minRowsForSplit;
   if (options.repeatTableHeader !== undefined) resolved.repeatTableHeader = options.repeatTableHeader;
+  if (options.repeatTableFooter !== undefined) resolved.repeatTableFooter = options.repeatTableFooter;
+  if (options.continuedTableCaption !== undefined) resolved.continuedTableCaption = options.continuedTableCaption;
+  if (options.formatTableSum !== undefined) resolved.formatTableSum = options.formatTableSum;
+  if (options.splitWideTables !== undefined) resolved.splitWideTables = options.splitWideTables;
   if (options.enableLineWrapMarkers !== undefined) resolved.enableLineWrapMarkers = options.enableLineWrapMarkers;
   if (options.oversizeStrategy !== undefined) resolved.oversizeStrategy = options.oversizeStrategy;
   if (options.enablePageRotation !== undefined) resolved.enablePageRotation = options.enablePageRotation;
   if (options.skipEmptyElements !== undefined) resolved.skipEmptyElements = options.skipEmptyElements;
+  if (options.footnoteMode !== undefined) resolved.footnoteMode = options.footnoteMode;
+  if (options.runningHeadings !== undefined) resolved.runningHeadings = options.runningHeadings;
 
   return resolved;
 }
@@ -7,11 +7,46 @@
  * - For nested elements, track open ancestors and reopen on new page
  */
 
-import type { ResolvedOptions } from './types.js';
+import type { ResolvedOptions, OversizeStrategy, Orientation, RunningStrings } from './types.js';
+import { getCSSBreakBehavior, measureLineHeight } from './measure.js';
+import { shouldRotateForImage } from './heuristics.js';
+import type { TextBoundary, LineBoundary, LineBox } from './split.js';
+import type { RowUnit, TableParts, CarryForward } from './tables.js';
+import {
+  getTableParts,
+  getRowUnits,
+  splitRowUnit,
+  splitRowAt,
+  measureColumnWidths,
+  applyColumnWidths,
+  getStickyColumns,
+  getColumnBands,
+  cloneColumnBand,
+  getCarryForward,
+  addToTotals,
+  createCarryRow,
+  SUM_COLUMN_ATTR,
+} from './tables.js';
+import {
+  getWordBoundaries,
+  getLineBoundaries,
+  getLineBoxes,
+  getListItemOrdinals,
+  cloneBetween,
+  cloneLines,
+} from './split.js';
+import { isSliceable, cloneSliceable, getSliceOverlap, getRenderedSize, createSlice } from './slice.js';
+import { FOOTNOTE_REF_ATTR, extractFootnotes, extractEndnotes, createFootnoteArea, splitFootnoteArea } from './notes.js';
+import { getRunningStrings } from './running.js';
 
 interface PageResult {
   element: HTMLElement;
   pageNumber: number;
+  orientation: Orientation;
+  // Content laid out landscape and turned a quarter (oversizeStrategy 'rotate')
+  rotated: boolean;
+  // Running strings set by headings (data-folio-running, runningHeadings)
+  running: RunningStrings;
 }
 
 interface AncestorInfo {
@@ -20,14 +55,46 @@ interface AncestorInfo {
   thead?: HTMLElement;
 }
 
+/**
+ * A heading at the end of the current page
+ */
+interface TrailingHeading {
+  element: HTMLElement;
+  // Open ancestor holding the heading (0 = the page itself, n = ancestorStack[n - 1])
+  level: number;
+}
+
+type BreakRule = ReturnType<typeof getCSSBreakBehavior>;
+
 interface PaginationState {
   pages: PageResult[];
   currentPage: HTMLElement;
   measureBox: HTMLElement;
+  // Height left for content: the page content height less the footnote area
   maxHeight: number;
+  contentHeight: number;
   options: ResolvedOptions;
   // Stack of open ancestor elements (for nested structures)
   ancestorStack: AncestorInfo[];
+  // Break rules (forced breaks, keep-together) read from CSS / data attributes
+  // before the source is detached
+  breakRules: Map<HTMLElement, BreakRule>;
+  // Elements with a forced page break somewhere inside them
+  breakContainers: Set<HTMLElement>;
+  // A break-after is waiting for the next element
+  pendingBreak: boolean;
+  // Orientation of the content being placed (landscape inside a
+  // data-folio-orientation section), and of the current page
+  orientation: Orientation;
+  pageOrientation: Orientation;
+  // Footnotes by number, the footnote area of the current page (measured outside
+  // the page), notes continued from the previous page, the references laid out, and
+  // whether the first continued note couldn't be cut at all (it is then clipped)
+  footnotes: Map<string, HTMLElement>;
+  footnoteArea: HTMLElement;
+  footnoteCarry: HTMLElement[];
+  footnoteKey: string | null;
+  footnoteStuck: boolean;
 }
 
 /**
@@ -43,6 +110,18 @@ export function paginateV2(
   measureBox.style.width = `${options.contentWidth}px`;
   measureBox.style.overflow = 'visible';
 
+  // Take footnotes out of the flow, leaving numbered references
+  // (endnotes are gathered into notes sections, paginated as content)
+  let footnotes = new Map<string, HTMLElement>();
+  if (options.footnoteMode === 'endnotes') {
+    extractEndnotes(sourceContainer);
+  } else {
+    footnotes = extractFootnotes(sourceContainer);
+  }
+
+  // Read break rules while the source is still styled
+  const { breakRules, breakContainers } = collectBreakRules(sourceContainer);
+
   // Clear existing content and prepare for pagination
   const originalChildren = Array.from(sourceContainer.children) as HTMLElement[];
   sourceContainer.innerHTML = '';
@@ -52,43 +131,197 @@ export function paginateV2(
     currentPage: createPageDiv(),
     measureBox,
     maxHeight: options.contentHeight,
+    contentHeight: options.contentHeight,
     options,
-    ancestorStack: []
+    ancestorStack: [],
+    breakRules,
+    breakContainers,
+    pendingBreak: false,
+    orientation: options.orientation,
+    pageOrientation: options.orientation,
+    footnotes,
+    footnoteArea: createFootnoteArea(),
+    footnoteCarry: [],
+    footnoteKey: null,
+    footnoteStuck: false
   };
 
   // Attach current page to measure box
   measureBox.appendChild(state.currentPage);
 
+  // The footnote area is measured next to the measure box, at the page content width
+  const footnoteHost = document.createElement('div');
+  footnoteHost.style.cssText = `
+    position: absolute;
+    left: -9999px;
+    top: 0;
+    visibility: hidden;
+    width: ${options.contentWidth}px;
+  `;
+  footnoteHost.appendChild(state.footnoteArea);
+  (measureBox.parentElement ?? document.body).appendChild(footnoteHost);
+
   // Process all original children
   for (const child of originalChildren) {
     processElement(child, state);
   }
 
   // Save final page if it has content
-  if (state.currentPage.children.length > 0 || state.currentPage.textContent?.trim()) {
+  if (state.currentPage.children.length > 0 || state.currentPage.textContent?.trim() || state.footnoteCarry.length > 0) {
     finalizePage(state);
+
+    // Footnotes continued past the last page get pages of their own
+    while (state.footnoteCarry.length > 0) {
+      const carried = state.footnoteCarry;
+      state.currentPage = createPageDiv();
+      state.measureBox.innerHTML = '';
+      state.measureBox.appendChild(state.currentPage);
+      setPageOrientation(state, state.orientation);
+      finalizePage(state);
+
+      // Never loop on notes that a page can't take any of - keep them, overflowing, on it
+      if (state.footnoteCarry.length === carried.length && state.footnoteCarry[0] === carried[0]) {
+        console.warn('Footnotes too large for page, placed unclipped');
+        const page = state.pages[state.pages.length - 1].element;
+        page.querySelector('.folio-footnotes')?.append(...state.footnoteCarry);
+        state.footnoteCarry = [];
+      }
+    }
   }
 
   // Cleanup - remove the page div we added for measurement
   measureBox.innerHTML = '';
+  footnoteHost.remove();
+
+  const running = getRunningStrings(state.pages.map(page => page.element), options.runningHeadings);
+  state.pages.forEach((page, index) => {
+    page.running = running[index];
+  });
 
   return state.pages;
 }
 
 /**
- * Process a single element - add to current page or split if needed
+ * Collect break rules for all block-level elements in the source:
+ * forced breaks (break-before/after: page, data-folio-break-*) and
+ * keep-together (break-inside: avoid, data-folio-keep-together).
+ * Also returns the elements containing a forced break.
+ */
+function collectBreakRules(root: HTMLElement): {
+  breakRules: Map<HTMLElement, BreakRule>;
+  breakContainers: Set<HTMLElement>;
+} {
+  const breakRules = new Map<HTMLElement, BreakRule>();
+  const breakContainers = new Set<HTMLElement>();
+
+  for (const el of Array.from(root.querySelectorAll<HTMLElement>('*'))) {
+    const rule = getCSSBreakBehavior(el);
+    const isForced = rule.breakBefore || rule.breakAfter;
+    if (!isForced && rule.breakInside !== 'avoid') continue;
+
+    // Page breaks only apply to blocks
+    if (getComputedStyle(el).display === 'inline') continue;
+
+    breakRules.set(el, rule);
+    if (!isForced) continue;
+
+    for (let parent = el.parentElement; parent && parent !== root; parent = parent.parentElement) {
+      breakContainers.add(parent);
+    }
+  }
+
+  return { breakRules, breakContainers };
+}
+
+/**
+ * Check if an element has a forced page break before or after it
+ */
+function hasForcedBreak(element: HTMLElement, state: PaginationState): boolean {
+  const rule = state.breakRules.get(element);
+  return !!rule && (rule.breakBefore || rule.breakAfter);
+}
+
+/**
+ * Check if an element must not be split (break-inside: avoid, data-folio-keep-together)
+ */
+function isKeptTogether(element: HTMLElement, state: PaginationState): boolean {
+  return state.breakRules.get(element)?.breakInside === 'avoid';
+}
+
+/**
+ * Check if a forced page break separates two adjacent siblings
+ */
+function isForcedBreakBetween(previous: HTMLElement, next: HTMLElement, state: PaginationState): boolean {
+  return !!state.breakRules.get(previous)?.breakAfter || !!state.breakRules.get(next)?.breakBefore;
+}
+
+/**
+ * Process a single element - honour forced breaks, then add to current page or split
  */
 function processElement(element: HTMLElement, state: PaginationState): void {
+  const rule = state.breakRules.get(element);
+
+  // Landscape sections and wide figures get pages of their own orientation,
+  // the flow turns back on the next page after them
+  const flowOrientation = state.orientation;
+  state.orientation = getElementOrientation(element, state) ?? flowOrientation;
+  if (state.orientation !== state.pageOrientation) {
+    console.log(`[ProcessElement] Turning page ${state.orientation} for <${element.tagName.toLowerCase()}>`);
+    if (isAtPageStart(state)) {
+      setPageOrientation(state, state.orientation);
+    } else {
+      startNewPage(state);
+    }
+  }
+
+  // Break before this element, or after the previous one
+  if ((rule?.breakBefore || state.pendingBreak) && !isAtPageStart(state)) {
+    console.log(`[ProcessElement] Forced page break before <${element.tagName.toLowerCase()}>`);
+    startNewPage(state);
+  }
+  state.pendingBreak = false;
+
+  placeElement(element, state);
+  state.orientation = flowOrientation;
+
+  // Break after is applied when the next element arrives, so no blank page is left at the end
+  if (rule?.breakAfter) {
+    state.pendingBreak = true;
+  }
+}
+
+/**
+ * Add an element to the current page or split it if needed
+ */
+function placeElement(element: HTMLElement, state: PaginationState): void {
   const target = getCurrentTarget(state);
   const tag = element.tagName.toLowerCase();
 
+  // Tables wider than the page: split into column bands first, then between rows
+  if (tag === 'table' && placeColumnBands(element as HTMLTableElement, state)) {
+    return;
+  }
+
+  // Images, SVGs and canvases taller than a page can be cut into slices
+  if (isSliceable(element)) {
+    placeSlices(element, state);
+    return;
+  }
+
+  // Keep-together blocks are never split - they move whole to the next page
+  // (forced breaks inside still win)
+  if (isKeptTogether(element, state) && !state.breakContainers.has(element)) {
+    placeWhole(element, state);
+    return;
+  }
+
   // For lists: don't try to add whole thing, go straight to split mode
   // This avoids measuring the full list and only measures after each <li>
   if (tag === 'ul' || tag === 'ol') {
     const didSplit = trySplitContainer(element, state);
     if (didSplit) return;
     // If split failed (e.g., no children fit), move to new page
-    startNewPage(state);
+    if (!isAtPageStart(state)) startNewPage(state);
     // Try again on fresh page
     const retryResult = trySplitContainer(element, state);
     if (!retryResult) {
@@ -104,7 +337,7 @@ function processElement(element: HTMLElement, state: PaginationState): void {
     const didSplit = trySplitCodeBlock(element, state);
     if (didSplit) return;
     // If split failed, move to new page and retry
-    startNewPage(state);
+    if (!isAtPageStart(state)) startNewPage(state);
     const retryResult = trySplitCodeBlock(element, state);
     if (!retryResult) {
       const newTarget = getCurrentTarget(state);
@@ -113,12 +346,12 @@ function processElement(element: HTMLElement, state: PaginationState): void {
     return;
   }
 
-  // For paragraphs: process per sentence (or per 6 words for long sentences)
+  // For paragraphs: split at word boundaries, keeping inline formatting
   if (tag === 'p') {
     const didSplit = trySplitParagraph(element, state);
     if (didSplit) return;
     // If split failed, move to new page and retry
-    startNewPage(state);
+    if (!isAtPageStart(state)) startNewPage(state);
     const retryResult = trySplitParagraph(element, state);
     if (!retryResult) {
       const newTarget = getCurrentTarget(state);
@@ -127,18 +360,26 @@ function processElement(element: HTMLElement, state: PaginationState): void {
     return;
   }
 
-  // Clone and try to add
-  const clone = element.cloneNode(true) as HTMLElement;
-  target.appendChild(clone);
+  // Forced breaks inside: never add whole, split so the breaks are reached
+  if (state.breakContainers.has(element)) {
+    const didSplit = tag === 'table'
+      ? trySplitTable(element as HTMLTableElement, state)
+      : trySplitContainer(element, state);
+    if (didSplit) return;
+  } else {
+    // Clone and try to add
+    const clone = element.cloneNode(true) as HTMLElement;
+    target.appendChild(clone);
 
-  // Check if it fits
-  if (state.measureBox.scrollHeight <= state.maxHeight) {
-    // Fits! We're done
-    return;
-  }
+    // Check if it fits
+    if (!isOverflowing(state)) {
+      // Fits! We're done
+      return;
+    }
 
-  // Overflow! Remove the clone
-  clone.remove();
+    // Overflow! Remove the clone
+    clone.remove();
+  }
 
   if (tag === 'table') {
     console.log('[ProcessElement] Table overflow, trying to split');
@@ -151,7 +392,7 @@ function processElement(element: HTMLElement, state: PaginationState): void {
   }
 
   // Can't split on current page - start new page and retry splitting
-  startNewPage(state);
+  if (!isAtPageStart(state)) startNewPage(state);
 
   // Try to split again on fresh page
   if (tag === 'table') {
@@ -167,233 +408,726 @@ function processElement(element: HTMLElement, state: PaginationState): void {
   const newClone = element.cloneNode(true) as HTMLElement;
   newTarget.appendChild(newClone);
 
-  // If it still doesn't fit on empty page, it's oversized - keep anyway
-  if (state.measureBox.scrollHeight > state.maxHeight) {
-    console.warn('Oversized element, keeping on page anyway:', element.tagName);
+  // If it still doesn't fit on empty page, it's oversized
+  if (isOverflowing(state)) {
+    fitOversized(newClone, state);
+  }
+}
+
+/**
+ * Add an element that must not be split: on the current page if it fits,
+ * otherwise at the top of the next one
+ */
+function placeWhole(element: HTMLElement, state: PaginationState): void {
+  const clone = element.cloneNode(true) as HTMLElement;
+  getCurrentTarget(state).appendChild(clone);
+
+  if (!isOverflowing(state)) {
+    return;
+  }
+
+  // Taller than a page even without the headings alone before it: keep it with them
+  const tooTall = clone.offsetHeight > state.maxHeight;
+  clone.remove();
+  if (!isAtPageStart(state, tooTall)) startNewPage(state);
+  getCurrentTarget(state).appendChild(clone);
+
+  // Taller than a full page
+  if (isOverflowing(state)) {
+    fitOversized(clone, state);
+  }
+}
+
+/**
+ * Place an image, SVG or canvas marked data-folio-slice: whole if it fits on the
+ * current or the next page, otherwise cut into slices filling consecutive pages.
+ * Each slice repeats the last data-folio-slice-overlap pixels of the previous one.
+ */
+function placeSlices(element: HTMLElement, state: PaginationState): void {
+  const clone = cloneSliceable(element);
+  getCurrentTarget(state).appendChild(clone);
+  if (!isOverflowing(state)) return;
+
+  clone.remove();
+  if (!isAtPageStart(state)) startNewPage(state);
+  getCurrentTarget(state).appendChild(clone);
+  if (!isOverflowing(state)) return;
+
+  const size = getRenderedSize(clone);
+  clone.remove();
+  if (size.height <= 0) {
+    getCurrentTarget(state).appendChild(clone);
+    fitOversized(clone, state);
+    return;
+  }
+
+  const overlap = getSliceOverlap(element);
+  let top = 0;
+
+  for (let index = 0; ; index++) {
+    if (index > 0) startNewPage(state);
+
+    const target = getCurrentTarget(state);
+    let height = Math.min(Math.max(1, -getOverflow(state)), size.height - top);
+    let slice = createSlice(element, top, height, size, index);
+    target.appendChild(slice);
+
+    // Margins and ancestors' padding weren't counted - take the overflow off the slice
+    const overflow = getOverflow(state);
+    if (overflow > 0 && height > overflow) {
+      slice.remove();
+      height -= overflow;
+      slice = createSlice(element, top, height, size, index);
+      target.appendChild(slice);
+    }
+
+    top += height;
+    if (top >= size.height) {
+      console.log(`[Slice] <${element.tagName.toLowerCase()}> ${size.height}px cut into ${index + 1} slices`);
+      return;
+    }
+    top -= Math.min(overlap, height / 2);
+  }
+}
+
+/**
+ * Make an element taller (or wider) than a full page fit, with the oversizeStrategy
+ * option or the element's data-folio-oversize attribute:
+ * - 'scale': shrink it proportionally
+ * - 'clip': cut it at the bottom of the page, with a visible marker
+ * - 'rotate': put it on a landscape page of its own (falls back to 'scale'
+ *   when page rotation is disabled or it is still too big)
+ */
+function fitOversized(clone: HTMLElement, state: PaginationState): void {
+  const strategy = getOversizeStrategy(clone, state);
+  console.warn(`Oversized element, applying '${strategy}':`, clone.tagName);
+
+  if (strategy === 'clip') {
+    clipToFit(clone, state);
+    return;
+  }
+
+  if (strategy === 'rotate' && state.options.enablePageRotation) {
+    moveToRotatedPage(clone, state);
+    if (!isOversized(clone, state)) return;
+  }
+
+  scaleToFit(clone, state);
+}
+
+/**
+ * Oversize strategy of an element: its data-folio-oversize attribute, or the option
+ */
+function getOversizeStrategy(element: HTMLElement, state: PaginationState): OversizeStrategy {
+  const value = element.getAttribute('data-folio-oversize');
+  if (value === 'scale' || value === 'clip' || value === 'rotate') return value;
+  return state.options.oversizeStrategy;
+}
+
+/**
+ * Whether the page overflows, or the element is wider than the space it is in
+ */
+function isOversized(clone: HTMLElement, state: PaginationState): boolean {
+  return isOverflowing(state) ||
+    clone.scrollWidth > getAvailableWidth(clone.parentElement!, state);
+}
+
+/**
+ * Shrink an element with a transform, inside a wrapper taking its scaled size
+ */
+function scaleToFit(clone: HTMLElement, state: PaginationState): void {
+  // Margins would be kept unscaled around the wrapper
+  clone.style.margin = '0';
+
+  const overflow = Math.max(0, getOverflow(state));
+  const height = clone.offsetHeight;
+  const width = clone.scrollWidth;
+  const maxWidth = getAvailableWidth(clone.parentElement!, state);
+
+  const scale = Math.min(1, (height - overflow) / height, maxWidth / width);
+  if (!(scale > 0 && scale < 1)) return;
+
+  const wrapper = document.createElement('div');
+  wrapper.className = 'folio-oversize-scaled';
+  wrapper.style.height = `${height * scale}px`;
+  wrapper.style.overflow = 'hidden';
+  clone.replaceWith(wrapper);
+  wrapper.appendChild(clone);
+
+  if (width > 0) clone.style.width = `${width}px`;
+  clone.style.transformOrigin = 'top left';
+  clone.style.transform = `scale(${scale})`;
+}
+
+/**
+ * Cut an element at the bottom of the page (and at the right edge),
+ * followed by a marker showing that content is missing
+ */
+function clipToFit(clone: HTMLElement, state: PaginationState): void {
+  const wrapper = document.createElement('div');
+  wrapper.className = 'folio-oversize-clipped';
+  wrapper.style.overflow = 'hidden';
+  clone.replaceWith(wrapper);
+  wrapper.appendChild(clone);
+
+  const marker = document.createElement('div');
+  marker.className = 'folio-clip-marker';
+  marker.style.cssText = `
+    height: 16px;
+    font-size: 10px;
+    color: #888;
+    text-align: right;
+    border-top: 1px dashed rgba(128,128,128,0.3);
+    padding: 2px 8px;
+    font-family: monospace;
+  `;
+  marker.textContent = '✂ (clipped)';
+  wrapper.after(marker);
+
+  const overflow = getOverflow(state);
+  if (overflow > 0) {
+    wrapper.style.height = `${Math.max(0, wrapper.offsetHeight - overflow)}px`;
+  }
+}
+
+/**
+ * Move an element to a page of its own whose content is laid out landscape
+ * (and turned a quarter when the page is saved). The next element starts a new page.
+ */
+function moveToRotatedPage(clone: HTMLElement, state: PaginationState): void {
+  clone.remove();
+  if (!isAtPageStart(state)) startNewPage(state);
+
+  const size = getPageSize(state.pageOrientation, state.options);
+  state.currentPage.classList.add('folio-page-rotated');
+  state.currentPage.style.width = `${size.contentHeight}px`;
+  setContentBox(state, size.contentHeight, size.contentWidth);
+
+  getCurrentTarget(state).appendChild(clone);
+  state.pendingBreak = true;
+}
+
+/**
+ * Split a table wider than the page into column bands (with splitWideTables or
+ * data-folio-split-columns), repeating the sticky columns in each band. Each band is
+ * then placed like a table of its own, so it is split between rows as usual.
+ * Bands follow each other, or each get pages of their own with data-folio-split-columns="page".
+ * Returns false when the table isn't split into columns.
+ */
+function placeColumnBands(table: HTMLTableElement, state: PaginationState): boolean {
+  const mode = getColumnSplitMode(table, state);
+  if (!mode) return false;
+
+  const target = getCurrentTarget(state);
+  const measured = table.cloneNode(true) as HTMLTableElement;
+  target.appendChild(measured);
+  const tableWidth = measured.offsetWidth;
+  const widths = measureColumnWidths(measured);
+  measured.remove();
+
+  const maxWidth = getAvailableWidth(target, state);
+  if (tableWidth <= maxWidth || widths.length === 0) return false;
+
+  const bands = getColumnBands(widths, getStickyColumns(table), maxWidth);
+  if (bands.length < 2) return false;
+
+  console.log(`[Table:Columns] ${tableWidth}px wide table (max ${maxWidth}px), ${bands.length} column bands`);
+
+  bands.forEach((columns, index) => {
+    const band = cloneColumnBand(table, columns);
+    band.setAttribute('data-folio-column-band', `${index + 1}/${bands.length}`);
+    applyColumnWidths(band, columns.map(column => widths[column]));
+    copyBreakRules(table, band, state);
+
+    // Later bands only get a "continued" caption, kept as is when the band splits between rows
+    if (index > 0) {
+      const caption = band.querySelector(':scope > caption');
+      const continued = createContinuedCaption(table, caption as HTMLElement | null, state);
+      caption?.remove();
+      if (continued) {
+        band.insertBefore(continued, band.firstChild);
+        band.setAttribute('data-folio-continued-caption', continued.textContent || '');
+      }
+    }
+
+    if (mode === 'page' && !isAtPageStart(state)) startNewPage(state);
+    placeElement(band, state);
+  });
+
+  if (mode === 'page') state.pendingBreak = true;
+  return true;
+}
+
+/**
+ * Whether a table is split into column bands when too wide: per table with
+ * data-folio-split-columns ("page" for a page per band, "false" to opt out),
+ * or for every table with the splitWideTables option
+ */
+function getColumnSplitMode(table: HTMLTableElement, state: PaginationState): 'flow' | 'page' | null {
+  // Already a band
+  if (table.hasAttribute('data-folio-column-band')) return null;
+
+  const value = table.getAttribute('data-folio-split-columns');
+  if (value === null) return state.options.splitWideTables ? 'flow' : null;
+  if (value === 'false') return null;
+  return value === 'page' ? 'page' : 'flow';
+}
+
+/**
+ * Width available to content in an element, or the page content width without layout
+ */
+function getAvailableWidth(target: HTMLElement, state: PaginationState): number {
+  const style = getComputedStyle(target);
+  const width = target.clientWidth - (parseFloat(style.paddingLeft) || 0) - (parseFloat(style.paddingRight) || 0);
+  return width > 0 ? width : state.options.contentWidth;
+}
+
+/**
+ * Give a column band the break rules of the table, row groups and rows it was cloned from
+ */
+function copyBreakRules(table: HTMLTableElement, band: HTMLTableElement, state: PaginationState): void {
+  const pairs: [HTMLElement, HTMLElement][] = [
+    [table, band],
+    ...Array.from(table.tBodies).map((body, i): [HTMLElement, HTMLElement] => [body, band.tBodies[i]]),
+    ...Array.from(table.rows).map((row, i): [HTMLElement, HTMLElement] => [row, band.rows[i]]),
+  ];
+
+  for (const [source, copy] of pairs) {
+    const rule = state.breakRules.get(source);
+    if (rule) state.breakRules.set(copy, rule);
+    if (state.breakContainers.has(source)) state.breakContainers.add(copy);
   }
 }
 
 /**
  * Try to split a table across pages
- * - Keeps thead on each page
- * - Splits between tbody rows
+ * - Keeps thead on each page (and tfoot, with repeatTableFooter)
+ * - Splits between rows, walking all tbody row groups in order
+ * - Keeps rowspan groups and keep-together tbodies on one page
  */
 function trySplitTable(table: HTMLTableElement, state: PaginationState): boolean {
-  const thead = table.querySelector('thead');
-  const tbody = table.querySelector('tbody') || table;
-  const rows = Array.from(tbody.querySelectorAll(':scope > tr')) as HTMLTableRowElement[];
+  const parts = getTableParts(table);
+  const units = getRowUnits(table, body => isKeptTogether(body, state));
 
   console.log('[Table] Start split:', {
-    rowCount: rows.length,
-    hasThead: !!thead,
+    unitCount: units.length,
+    bodyCount: table.tBodies.length,
+    hasThead: !!parts.thead,
+    hasTfoot: !!parts.tfoot,
     maxHeight: state.maxHeight,
     currentScrollHeight: state.measureBox.scrollHeight,
     ancestorStackDepth: state.ancestorStack.length
   });
 
-  if (rows.length < 1) {
+  if (units.length < 1) {
     console.log('[Table] Skip: not enough rows');
     return false;
   }
 
+  // Column widths of the whole table, kept by every fragment
+  const measured = table.cloneNode(true) as HTMLTableElement;
+  getCurrentTarget(state).appendChild(measured);
+  parts.columnWidths = measureColumnWidths(measured);
+  measured.remove();
+
+  parts.carry = getCarryForward(table, state.options.formatTableSum);
+
+  return placeTableRows(table, parts, units, true, state);
+}
+
+/**
+ * Process remaining table rows on new page(s)
+ */
+function processRemainingRows(
+  originalTable: HTMLTableElement,
+  parts: TableParts,
+  units: RowUnit[],
+  state: PaginationState
+): void {
+  console.log(`[Table:Remaining] Processing ${units.length} remaining units`);
+  if (units.length === 0) return;
+
+  placeTableRows(originalTable, parts, units, false, state);
+}
+
+/**
+ * Fill a table fragment on the current page with row units, continuing on new pages.
+ * Only the first fragment can fail (when too little fits): later ones always place something.
+ */
+function placeTableRows(
+  table: HTMLTableElement,
+  parts: TableParts,
+  units: RowUnit[],
+  isFirst: boolean,
+  state: PaginationState
+): boolean {
+  const log = isFirst ? '[Table]' : '[Table:Remaining]';
   const target = getCurrentTarget(state);
+  const afterHeading = isFirst && getTrailingHeadings(state).length > 0;
+  const atPageStart = isAtPageStart(state);
 
-  // Create table clone without rows
-  const tableClone = table.cloneNode(false) as HTMLTableElement;
+  // Create table clone with caption, colgroups, thead and tfoot, without rows
+  const tableClone = createTableFragment(table, parts, isFirst, state);
   target.appendChild(tableClone);
-
-  // Add thead if exists
-  let theadClone: HTMLElement | undefined;
-  if (thead) {
-    theadClone = thead.cloneNode(true) as HTMLElement;
-    tableClone.appendChild(theadClone);
+  const tfootClone = tableClone.querySelector(':scope > tfoot');
+
+  // Running totals: brought forward at the top, carried forward at the bottom
+  // (present while fitting, so its height is reserved)
+  const carry = parts.carry;
+  let carriedBody: HTMLElement | null = null;
+  if (carry) {
+    if (!isFirst) tableClone.insertBefore(createCarryBody(carry, 'brought'), tfootClone);
+    carriedBody = createCarryBody(carry, 'carried');
+    tableClone.insertBefore(carriedBody, tfootClone);
   }
 
-  // Create tbody
-  const tbodyClone = document.createElement('tbody');
-  tableClone.appendChild(tbodyClone);
-
   // Push table to ancestor stack with thead info
   state.ancestorStack.push({
     element: tableClone,
-    thead: thead ? thead.cloneNode(true) as HTMLElement : undefined
+    thead: parts.thead ? parts.thead.cloneNode(true) as HTMLElement : undefined
   });
 
-  // Also push tbody to stack
-  state.ancestorStack.push({ element: tbodyClone });
+  // Row group being filled (also pushed to the stack), and its source
+  let tbodyClone: HTMLElement | null = null;
+  let currentBody: HTMLTableSectionElement | null = null;
 
-  let fittedCount = 0;
-  console.log('[Table] Starting row loop, initial scrollHeight:', state.measureBox.scrollHeight);
-
-  for (let i = 0; i < rows.length; i++) {
-    const row = rows[i];
-    const rowClone = row.cloneNode(true) as HTMLTableRowElement;
-    tbodyClone.appendChild(rowClone);
-
-    const scrollHeight = state.measureBox.scrollHeight;
-    const rowText = (row.textContent || '').trim().split(/\s+/).slice(0, 4).join(' ');
-    const remaining = rows.length - i - 1;
-    console.log(`[Table] Row ${i}/${rows.length}: "${rowText}..." | height=${scrollHeight}/${state.maxHeight} | overflow=${scrollHeight > state.maxHeight} | remaining=${remaining}`);
-
-    if (scrollHeight > state.maxHeight) {
-      // This row caused overflow
-      rowClone.remove();
-      console.log(`[Table] Row ${i} removed, fittedCount=${fittedCount}`);
-
-      // Check if at least 1 row fits (we need something on current page)
-      if (fittedCount < 1) {
-        console.log(`[Table] ❌ Can't split: no rows fit on current page`);
-        tableClone.remove();
-        state.ancestorStack.pop(); // tbody
-        state.ancestorStack.pop(); // table
-        return false;
+  const closeFragment = (isLast: boolean): void => {
+    if (tbodyClone) state.ancestorStack.pop(); // tbody
+    state.ancestorStack.pop(); // table
+    tableClone.querySelectorAll(':scope > tbody:empty').forEach(body => body.remove());
+    // The footer space was reserved during fitting - keep it only where it belongs
+    if (!isLast && !state.options.repeatTableFooter) tfootClone?.remove();
+
+    if (carry && carriedBody) {
+      if (isLast) {
+        carriedBody.remove();
+      } else {
+        addToTotals(carry, Array.from(tableClone.querySelectorAll(':scope > tbody:not(.folio-carry) > tr')));
+        carriedBody.replaceChildren(createCarryRow(carry, 'carried'));
       }
+    }
+  };
 
-      // Check if remaining rows meet minimum
-      const remainingCount = rows.length - i;
-      console.log(`[Table] ✂️ SPLIT: fitted=${fittedCount} rows here, remaining=${remainingCount} rows to next page`);
-
-      if (remainingCount < state.options.minRowsForSplit) {
-        // Would leave too few rows on next page
-        // Remove some rows from current page to balance
-        const rowsToMove = state.options.minRowsForSplit - remainingCount;
-        console.log(`[Table] Moving ${rowsToMove} rows to next page for balance`);
-        for (let j = 0; j < rowsToMove && tbodyClone.lastChild; j++) {
-          tbodyClone.lastChild.remove();
-          fittedCount--;
-        }
-        // Adjust index
-        const newStartIndex = i - rowsToMove;
+  const continueOnNewPage = (remaining: RowUnit[]): void => {
+    closeFragment(false);
+    startNewPage(state);
+    processRemainingRows(table, parts, remaining, state);
+  };
 
-        // Start new page for remaining rows
-        state.ancestorStack.pop(); // tbody
-        state.ancestorStack.pop(); // table
-        console.log(`[Table] Starting new page, processing rows from index ${newStartIndex}`);
-        startNewPage(state);
+  // Row clones of each unit placed on this page
+  const fittedUnits: HTMLTableRowElement[][] = [];
+  console.log(`${log} Starting row loop, initial scrollHeight:`, state.measureBox.scrollHeight);
+
+  for (let i = 0; i < units.length; i++) {
+    const unit = units[i];
+
+    // Forced break between rows
+    if (fittedUnits.length > 0 && isForcedBreakBetweenUnits(units[i - 1], unit, state)) {
+      console.log(`${log} Forced page break before unit ${i}`);
+      continueOnNewPage(units.slice(i));
+      return true;
+    }
+
+    // Open the unit's row group
+    if (!tbodyClone || unit.body !== currentBody) {
+      if (tbodyClone) state.ancestorStack.pop();
+      tbodyClone = unit.body ? unit.body.cloneNode(false) as HTMLElement : document.createElement('tbody');
+      currentBody = unit.body;
+      tableClone.insertBefore(tbodyClone, carriedBody ?? tfootClone);
+      state.ancestorStack.push({ element: tbodyClone });
+    }
+
+    const unitClones = unit.rows.map(row => row.cloneNode(true) as HTMLTableRowElement);
+    tbodyClone.append(...unitClones);
+
+    const overflow = isOverflowing(state);
+    const rowText = (unit.rows[0].textContent || '').trim().split(/\s+/).slice(0, 4).join(' ');
+    const remaining = units.length - i - 1;
+    console.log(`${log} Unit ${i}/${units.length} (${unit.rows.length} rows): "${rowText}..." | height=${state.measureBox.scrollHeight}/${state.maxHeight} | overflow=${overflow} | remaining=${remaining}`);
+
+    if (!overflow) {
+      fittedUnits.push(unitClones);
+      continue;
+    }
 
-        // Process remaining rows
-        processRemainingRows(table, rows.slice(newStartIndex), thead, state);
+    // The last unit doesn't need the carried forward row below it
+    if (carriedBody && i === units.length - 1) {
+      carriedBody.remove();
+      if (!isOverflowing(state)) {
+        fittedUnits.push(unitClones);
+        continue;
+      }
+      tableClone.insertBefore(carriedBody, tfootClone);
+    }
+
+    // This unit caused overflow
+    unitClones.forEach(row => row.remove());
+    console.log(`${log} Unit ${i} removed, fittedUnits=${fittedUnits.length}`);
+
+    if (fittedUnits.length === 0 && (atPageStart || !isFirst)) {
+      // Taller than a whole page: split the unit itself
+      const rest = fitRowUnit(unit.rows, tbodyClone, state);
+      if (rest) {
+        continueOnNewPage([{ rows: rest, body: unit.body }, ...units.slice(i + 1)]);
         return true;
       }
 
-      // Start new page for remaining rows
+      // Not even a line fits - keep anyway
+      console.warn(`${log} ⚠️ Row too large for page, keeping anyway`);
+      tbodyClone.append(...unitClones);
+      fittedUnits.push(unitClones);
+      continue;
+    }
+
+    // Check if at least 1 row fits (we need something on current page),
+    // or minContentLines worth of rows right after a heading
+    if (fittedUnits.length < 1 || (afterHeading && !hasMinContent(tbodyClone, state))) {
+      console.log(`${log} ❌ Can't split: not enough rows fit on current page`);
       state.ancestorStack.pop(); // tbody
       state.ancestorStack.pop(); // table
-      console.log(`[Table] Starting new page, processing rows from index ${i}`);
-      startNewPage(state);
+      tableClone.remove();
+      return false;
+    }
 
-      // Process remaining rows
-      processRemainingRows(table, rows.slice(i), thead, state);
-      return true;
+    // Would leave too few rows on next page - move units back to balance,
+    // keeping at least one on this page (first fragment only)
+    let splitIndex = i;
+    while (isFirst && splitIndex > 1 && countRows(units.slice(splitIndex)) < state.options.minRowsForSplit) {
+      fittedUnits.pop()!.forEach(row => row.remove());
+      splitIndex--;
     }
 
-    fittedCount++;
+    console.log(`${log} ✂️ SPLIT: fitted=${fittedUnits.length} units here, remaining=${units.length - splitIndex} units to next page`);
+    continueOnNewPage(units.slice(splitIndex));
+    return true;
   }
 
   // All rows fit
-  console.log(`[Table] All ${fittedCount} rows fit on current page`);
-  state.ancestorStack.pop(); // tbody
-  state.ancestorStack.pop(); // table
+  console.log(`${log} All ${fittedUnits.length} units fit on current page`);
+  closeFragment(true);
   return true;
 }
 
 /**
- * Process remaining table rows on new page(s)
+ * Create an empty table fragment: caption (first fragment, or a "continued" one),
+ * column groups (with the frozen column widths), thead and tfoot
  */
-function processRemainingRows(
-  originalTable: HTMLTableElement,
-  rows: HTMLTableRowElement[],
-  thead: HTMLElement | null,
+function createTableFragment(
+  table: HTMLTableElement,
+  parts: TableParts,
+  isFirst: boolean,
   state: PaginationState
-): void {
-  console.log(`[Table:Remaining] Processing ${rows.length} remaining rows`);
-  if (rows.length === 0) return;
-
-  const target = getCurrentTarget(state);
-  console.log(`[Table:Remaining] Target element:`, target.tagName, target.className);
+): HTMLTableElement {
+  const fragment = table.cloneNode(false) as HTMLTableElement;
 
-  // Create new table
-  const tableClone = originalTable.cloneNode(false) as HTMLTableElement;
-  target.appendChild(tableClone);
+  const caption = isFirst
+    ? parts.caption?.cloneNode(true) as HTMLElement | undefined
+    : createContinuedCaption(table, parts.caption, state);
+  if (caption) fragment.appendChild(caption);
 
-  // Add thead (repeated)
-  if (thead) {
-    tableClone.appendChild(thead.cloneNode(true));
-    console.log('[Table:Remaining] Added repeated thead');
+  for (const colgroup of parts.colgroups) {
+    fragment.appendChild(colgroup.cloneNode(true));
   }
 
-  // Create tbody
-  const tbodyClone = document.createElement('tbody');
-  tableClone.appendChild(tbodyClone);
+  // thead (repeated)
+  if (parts.thead) fragment.appendChild(parts.thead.cloneNode(true));
+  if (parts.tfoot) fragment.appendChild(parts.tfoot.cloneNode(true));
 
-  // Push to stack
-  state.ancestorStack.push({
-    element: tableClone,
-    thead: thead ? thead.cloneNode(true) as HTMLElement : undefined
-  });
-  state.ancestorStack.push({ element: tbodyClone });
+  if (parts.columnWidths.length > 0) {
+    applyColumnWidths(fragment, parts.columnWidths);
+  }
 
-  let fittedCount = 0;
-  console.log('[Table:Remaining] Initial scrollHeight:', state.measureBox.scrollHeight);
-
-  for (let i = 0; i < rows.length; i++) {
-    const row = rows[i];
-    const rowClone = row.cloneNode(true) as HTMLTableRowElement;
-    tbodyClone.appendChild(rowClone);
-
-    const scrollHeight = state.measureBox.scrollHeight;
-    const rowText = (row.textContent || '').trim().split(/\s+/).slice(0, 4).join(' ');
-    const remaining = rows.length - i - 1;
-    console.log(`[Table:Remaining] Row ${i}/${rows.length}: "${rowText}..." | height=${scrollHeight}/${state.maxHeight} | overflow=${scrollHeight > state.maxHeight} | remaining=${remaining}`);
-
-    if (scrollHeight > state.maxHeight) {
-      // Overflow again
-      rowClone.remove();
-
-      if (fittedCount < 1) {
-        // First row doesn't fit - row is too large for page, keep anyway
-        console.warn(`[Table:Remaining] ⚠️ Row too large for page, keeping anyway`);
-        tbodyClone.appendChild(rowClone);
-        fittedCount++;
-        continue;
-      }
+  return fragment;
+}
+
+/**
+ * Create the caption of a continuation fragment, if any:
+ * data-folio-continued-caption text, or the caption followed by "(continued)"
+ * with the continuedTableCaption option
+ */
+function createContinuedCaption(
+  table: HTMLTableElement,
+  caption: HTMLElement | null,
+  state: PaginationState
+): HTMLElement | undefined {
+  const text = table.getAttribute('data-folio-continued-caption');
+  if (text === null && !(caption && state.options.continuedTableCaption)) return undefined;
+
+  const continued = caption
+    ? caption.cloneNode(false) as HTMLElement
+    : document.createElement('caption');
+  continued.classList.add('folio-continued-caption');
+  continued.textContent = text ?? `${caption?.textContent?.trim()} (continued)`;
+  return continued;
+}
 
-      const remainingNow = rows.length - i;
-      console.log(`[Table:Remaining] ✂️ SPLIT: fitted=${fittedCount} rows here, remaining=${remainingNow} rows to next page`);
+/**
+ * Place as many rows of a rowspan group taller than a page as fit, with the spanning
+ * cells cut at the page break. Returns the rest of the group (spanning cells re-emitted),
+ * or null when nothing could be split off.
+ */
+function fitRowUnit(
+  unit: HTMLTableRowElement[],
+  tbodyClone: HTMLElement,
+  state: PaginationState
+): HTMLTableRowElement[] | null {
+  if (unit.length < 2) {
+    const rest = fitTableRow(unit[0], tbodyClone, state);
+    return rest && [rest];
+  }
 
-      // Start another new page
-      state.ancestorStack.pop(); // tbody
-      state.ancestorStack.pop(); // table
-      startNewPage(state);
+  for (let count = unit.length - 1; count > 1; count--) {
+    const { before, after } = splitRowUnit(unit, count);
+    tbodyClone.append(...before);
 
-      // Recursively process remaining
-      processRemainingRows(originalTable, rows.slice(i), thead, state);
-      return;
+    if (!isOverflowing(state)) {
+      console.log(`[Table] Split rowspan group after ${count}/${unit.length} rows`);
+      return after;
     }
 
-    fittedCount++;
+    before.forEach(row => row.remove());
+  }
+
+  // Not even two rows fit - the first row alone, if it fits
+  const { before, after } = splitRowUnit(unit, 1);
+  tbodyClone.append(...before);
+
+  if (!isOverflowing(state)) {
+    console.log(`[Table] Split rowspan group after 1/${unit.length} rows`);
+    return after;
+  }
+
+  before.forEach(row => row.remove());
+
+  // Otherwise cut the first row at the page break; its spanning cells continue
+  // (with their full rowspan) from the rest of the row on the next page
+  const first = unit[0].cloneNode(true) as HTMLTableRowElement;
+  Array.from(first.cells).forEach(cell => cell.removeAttribute('rowspan'));
+
+  const rest = fitTableRow(first, tbodyClone, state);
+  if (!rest) return null;
+
+  Array.from(unit[0].cells).forEach((cell, index) => {
+    const rowspan = cell.getAttribute('rowspan');
+    if (rowspan !== null) rest.cells[index].setAttribute('rowspan', rowspan);
+  });
+
+  console.log(`[Table] Split the first row of a ${unit.length}-row rowspan group`);
+  return [rest, ...unit.slice(1).map(row => row.cloneNode(true) as HTMLTableRowElement)];
+}
+
+/**
+ * Place the part of a single row taller than a page that fits, cutting every cell
+ * at a line boundary (or between words, see textBreakMode). Returns the rest of the
+ * row, or null when not even the first line fits.
+ */
+function fitTableRow(
+  row: HTMLTableRowElement,
+  tbodyClone: HTMLElement,
+  state: PaginationState
+): HTMLTableRowElement | null {
+  // Lay out the whole row to read its cell widths and line boxes
+  const placed = row.cloneNode(true) as HTMLTableRowElement;
+  tbodyClone.appendChild(placed);
+
+  const cells = Array.from(placed.cells);
+  const widths = cells.map(cell => cell.getBoundingClientRect().width);
+  const words = cells.map(cell => getWordBoundaries(cell));
+  const lines = words.map(cellWords => getLineBoxes(cellWords));
+  placed.remove();
+
+  // Cut positions, from the least to the most content on this page
+  let cutsAt: (step: number) => (TextBoundary | null)[];
+  let steps: number;
+
+  const hasLayout = lines.some(cellLines => cellLines.length > 0);
+  if (state.options.textBreakMode === 'line' && hasLayout) {
+    // Cut every cell below a common line bottom
+    const bottoms = [...new Set(lines.flat().map(line => line.bottom))].sort((a, b) => a - b);
+    steps = bottoms.length - 1;
+    cutsAt = step => lines.map((cellLines, index) => {
+      const fitted = cellLines.filter(line => line.bottom <= bottoms[step]).length;
+      return fitted < cellLines.length ? words[index][cellLines[fitted].firstWord] : null;
+    });
+  } else {
+    // No layout information - cut every cell at the same share of its words
+    const maxWords = Math.max(...words.map(cellWords => cellWords.length));
+    steps = maxWords - 1;
+    cutsAt = step => words.map(cellWords => {
+      const count = Math.ceil(cellWords.length * (step + 1) / maxWords);
+      return count < cellWords.length ? cellWords[count] : null;
+    });
   }
 
-  // All remaining rows fit
-  console.log(`[Table:Remaining] All ${fittedCount} rows fit`);
-  state.ancestorStack.pop(); // tbody
-  state.ancestorStack.pop(); // table
+  // Binary search for the most content that fits
+  let best: { before: HTMLTableRowElement; after: HTMLTableRowElement } | null = null;
+  let low = 0;
+  let high = steps - 1;
+
+  while (low <= high) {
+    const step = Math.floor((low + high) / 2);
+    const parts = splitRowAt(placed, cutsAt(step), widths);
+    tbodyClone.appendChild(parts.before);
+    const fits = !isOverflowing(state);
+    parts.before.remove();
+
+    if (fits) {
+      best = parts;
+      low = step + 1;
+    } else {
+      high = step - 1;
+    }
+  }
+
+  if (!best) return null;
+
+  console.log(`[Table] Split oversized row across pages`);
+  tbodyClone.appendChild(best.before);
+  return best.after;
+}
+
+/**
+ * Create a row group holding a generated "carried forward" / "brought forward" row
+ */
+function createCarryBody(carry: CarryForward, kind: 'carried' | 'brought'): HTMLElement {
+  const body = document.createElement('tbody');
+  body.className = 'folio-carry';
+  body.appendChild(createCarryRow(carry, kind));
+  return body;
+}
+
+/**
+ * Check if a forced page break separates two row units (between their rows or row groups)
+ */
+function isForcedBreakBetweenUnits(previous: RowUnit, next: RowUnit, state: PaginationState): boolean {
+  const lastRow = previous.rows[previous.rows.length - 1];
+  if (isForcedBreakBetween(lastRow, next.rows[0], state)) return true;
+
+  return !!previous.body && !!next.body && previous.body !== next.body &&
+    isForcedBreakBetween(previous.body, next.body, state);
+}
+
+/**
+ * Total number of rows in a list of units
+ */
+function countRows(units: RowUnit[]): number {
+  return units.reduce((count, unit) => count + unit.rows.length, 0);
 }
 
 /**
  * Try to split a code block across pages
- * - Adds lines one by one
+ * - Adds lines one by one, splitting the highlighted markup at newlines
  * - Handles long line wrapping with ↩ and ↪ indicators
  */
 function trySplitCodeBlock(element: HTMLElement, state: PaginationState): boolean {
   const target = getCurrentTarget(state);
 
-  // Get text content and split into lines
-  const codeEl = element.querySelector('code') || element;
-  const text = codeEl.textContent || '';
-  const lines = text.split('\n');
+  // Right after a heading, keep at least minContentLines lines with it
+  const minLines = getTrailingHeadings(state).length > 0 ? state.options.minContentLines : 1;
 
-  if (lines.length === 0) return false;
+  // Split the (possibly highlighted) code into lines
+  const codeEl = element.querySelector('code') || element;
+  const lines = getLineBoundaries(codeEl);
 
   // Create pre element clone (without content)
   const preClone = element.cloneNode(false) as HTMLElement;
@@ -409,35 +1143,29 @@ function trySplitCodeBlock(element: HTMLElement, state: PaginationState): boolea
     codeClone = preClone;
   }
 
-  // Track which lines we've added
-  let addedLines: string[] = [];
+  // Track how many lines we've added
+  let addedCount = 0;
   let lineIndex = 0;
   let isFirstFragment = true;
 
   while (lineIndex < lines.length) {
-    const line = lines[lineIndex];
-
     // Add line to code block
-    if (addedLines.length > 0) {
-      codeClone.textContent = addedLines.join('\n') + '\n' + line;
-    } else {
-      codeClone.textContent = line;
-    }
+    setCodeLines(codeClone, codeEl, lines, 0, lineIndex + 1);
 
     // Check overflow
-    if (state.measureBox.scrollHeight > state.maxHeight) {
+    if (isOverflowing(state)) {
       // This line caused overflow
-      if (addedLines.length === 0) {
-        // First line doesn't fit - can't split here
+      if (addedCount < minLines) {
+        // Too few lines fit - can't split here
         preClone.remove();
         return false;
       }
 
       // Remove the line that caused overflow
-      codeClone.textContent = addedLines.join('\n');
+      setCodeLines(codeClone, codeEl, lines, 0, addedCount);
 
       // Add continuation indicator at bottom
-      if (!isFirstFragment || addedLines.length < lines.length) {
+      if (!isFirstFragment || addedCount < lines.length) {
         addCodeContinuationIndicator(preClone, 'bottom');
       }
 
@@ -445,12 +1173,11 @@ function trySplitCodeBlock(element: HTMLElement, state: PaginationState): boolea
       startNewPage(state);
 
       // Continue with remaining lines on new page
-      const remainingLines = lines.slice(lineIndex);
-      processRemainingCodeLines(element, remainingLines, state);
+      processRemainingCodeLines(element, codeEl, lines, lineIndex, state);
       return true;
     }
 
-    addedLines.push(line);
+    addedCount++;
     lineIndex++;
   }
 
@@ -461,14 +1188,16 @@ function trySplitCodeBlock(element: HTMLElement, state: PaginationState): boolea
 }
 
 /**
- * Process remaining code lines on a new page
+ * Process remaining code lines (from `fromLine` on) on a new page
  */
 function processRemainingCodeLines(
   originalPre: HTMLElement,
-  lines: string[],
+  codeEl: HTMLElement,
+  lines: LineBoundary[],
+  fromLine: number,
   state: PaginationState
 ): void {
-  if (lines.length === 0) return;
+  if (fromLine >= lines.length) return;
 
   const target = getCurrentTarget(state);
 
@@ -489,28 +1218,21 @@ function processRemainingCodeLines(
     codeClone = preClone;
   }
 
-  let addedLines: string[] = [];
-  let lineIndex = 0;
+  let addedCount = 0;
+  let lineIndex = fromLine;
 
   while (lineIndex < lines.length) {
-    const line = lines[lineIndex];
-
-    if (addedLines.length > 0) {
-      codeClone.textContent = addedLines.join('\n') + '\n' + line;
-    } else {
-      codeClone.textContent = line;
-    }
+    setCodeLines(codeClone, codeEl, lines, fromLine, lineIndex + 1);
 
-    if (state.measureBox.scrollHeight > state.maxHeight) {
-      if (addedLines.length === 0) {
+    if (isOverflowing(state)) {
+      if (addedCount === 0) {
         // Even a single line doesn't fit - add anyway
-        codeClone.textContent = line;
-        addedLines.push(line);
+        addedCount++;
         lineIndex++;
         console.warn('Code line too long for page');
       } else {
         // Remove overflow line
-        codeClone.textContent = addedLines.join('\n');
+        setCodeLines(codeClone, codeEl, lines, fromLine, lineIndex);
       }
 
       // Add bottom indicator
@@ -518,151 +1240,266 @@ function processRemainingCodeLines(
 
       // Continue on next page
       startNewPage(state);
-      processRemainingCodeLines(originalPre, lines.slice(lineIndex), state);
+      processRemainingCodeLines(originalPre, codeEl, lines, lineIndex, state);
       return;
     }
 
-    addedLines.push(line);
+    addedCount++;
     lineIndex++;
   }
 
   // All remaining lines fit - no bottom indicator needed
 }
 
+/**
+ * Replace the content of a code fragment with lines [from, to) of the source,
+ * keeping any continuation indicators already in place
+ */
+function setCodeLines(
+  codeClone: HTMLElement,
+  codeEl: HTMLElement,
+  lines: LineBoundary[],
+  from: number,
+  to: number
+): void {
+  for (const child of Array.from(codeClone.childNodes)) {
+    if (child instanceof HTMLElement && child.classList.contains('folio-code-continuation')) {
+      continue;
+    }
+    child.remove();
+  }
+  codeClone.appendChild(cloneLines(codeEl, lines, from, to));
+}
+
 /**
  * Try to split a paragraph across pages
- * - Adds per sentence
- * - If sentence is long (>10 words), adds per 6 words
+ * - Splits at the last rendered line that fits (or word by word, see textBreakMode)
+ * - Keeps inline formatting on both halves
  */
 function trySplitParagraph(element: HTMLElement, state: PaginationState): boolean {
   const target = getCurrentTarget(state);
+  const minLines = getMinLinesBefore(state);
 
-  // Get text and split into chunks (sentences or word groups)
-  const text = element.textContent || '';
-  const chunks = splitTextIntoChunks(text);
+  // Whole paragraph first - most paragraphs fit
+  const pClone = element.cloneNode(true) as HTMLElement;
+  target.appendChild(pClone);
 
-  if (chunks.length === 0) return false;
+  if (!isOverflowing(state)) {
+    return true;
+  }
 
-  // Create paragraph clone (without content)
-  const pClone = element.cloneNode(false) as HTMLElement;
-  target.appendChild(pClone);
+  const { words, fit } = fitParagraph(pClone, minLines, state);
 
-  let addedText = '';
-  let chunkIndex = 0;
+  if (!fit) {
+    // Too few lines fit - can't split here
+    return false;
+  }
 
-  while (chunkIndex < chunks.length) {
-    const chunk = chunks[chunkIndex];
+  // Start new page
+  startNewPage(state);
 
-    // Add chunk to paragraph
-    const newText = addedText ? addedText + ' ' + chunk : chunk;
-    pClone.textContent = newText;
+  // Continue with remaining words on new page
+  processRemainingParagraph(cloneBetween(pClone, words[fit.count], null), state);
+  return true;
+}
 
-    // Check overflow
-    if (state.measureBox.scrollHeight > state.maxHeight) {
-      // This chunk caused overflow
-      if (!addedText) {
-        // First chunk doesn't fit - can't split here
-        pClone.remove();
-        return false;
-      }
+/**
+ * Part of a paragraph that fits on the current page
+ */
+interface ParagraphFit {
+  fragment: HTMLElement;
+  count: number;  // Number of words in the fragment
+}
 
-      // Restore previous text
-      pClone.textContent = addedText;
+/**
+ * Fit as much of a placed (overflowing) paragraph as possible on the current page,
+ * keeping at least `minLines` lines when it is split (unless `enforceRules` is false).
+ * Replaces `placed` with the fitting fragment, or removes it when nothing fits.
+ */
+function fitParagraph(
+  placed: HTMLElement,
+  minLines: number,
+  state: PaginationState,
+  enforceRules = true
+): { words: TextBoundary[]; fit: ParagraphFit | null } {
+  const words = getWordBoundaries(placed);
+
+  // Line boxes of the whole paragraph, read while it is still laid out
+  const lines = getLineBoxes(words);
+
+  // No layout information - fall back to word search
+  const fit = state.options.textBreakMode === 'line' && lines.length > 0
+    ? fitParagraphLines(placed, words, lines, state)
+    : fitParagraphWords(placed, words, state);
+
+  if (!fit || lines.length === 0 || !enforceRules) {
+    return { words, fit };
+  }
 
-      // Start new page
-      startNewPage(state);
+  return { words, fit: enforceOrphansWidows(placed, words, lines, fit, minLines, state) };
+}
 
-      // Continue with remaining chunks on new page
-      const remainingChunks = chunks.slice(chunkIndex);
-      processRemainingParagraphChunks(element, remainingChunks, state);
-      return true;
-    }
+/**
+ * Apply orphan (`minLines`) / widowLines rules to a paragraph split.
+ * Pulls lines back to the next page to avoid widows, and refuses the split
+ * (removing the fragment) when too few lines would stay at the page bottom.
+ */
+function enforceOrphansWidows(
+  placed: HTMLElement,
+  words: TextBoundary[],
+  lines: LineBox[],
+  fit: ParagraphFit,
+  minLines: number,
+  state: PaginationState
+): ParagraphFit | null {
+  const { widowLines } = state.options;
 
-    addedText = newText;
-    chunkIndex++;
+  const fittedLines = lines.filter(line => line.firstWord < fit.count).length;
+  let linesBefore = fittedLines;
+
+  // Widow: too few lines would start the next page
+  if (lines.length - linesBefore < widowLines) {
+    linesBefore = Math.max(0, lines.length - widowLines);
   }
 
-  // All chunks fit
-  return true;
+  // Orphan: too few lines would end this page (and never an empty fragment)
+  if (linesBefore < Math.max(1, minLines)) {
+    console.log(`[Paragraph] Skip split: ${linesBefore} line(s) before, ${lines.length - linesBefore} after`);
+    fit.fragment.remove();
+    return null;
+  }
+
+  if (linesBefore === fittedLines) {
+    return fit;
+  }
+
+  const count = lines[linesBefore].firstWord;
+  const fragment = cloneBetween(placed, null, words[count]);
+  fit.fragment.replaceWith(fragment);
+  return { fragment, count };
 }
 
 /**
- * Split text into chunks: sentences, or 6-word groups for long sentences
+ * Find the last rendered line of a paragraph that fits on the current page.
+ * Predicts the split from the line boxes, then verifies by measuring.
  */
-function splitTextIntoChunks(text: string): string[] {
-  // Split by sentence endings (. ! ?)
-  const sentences = text.match(/[^.!?]+[.!?]+|[^.!?]+$/g) || [text];
-  const chunks: string[] = [];
+function fitParagraphLines(
+  placed: HTMLElement,
+  words: TextBoundary[],
+  lines: LineBox[],
+  state: PaginationState
+): ParagraphFit | null {
+  // Space taken after the last line (paragraph padding, margins, open ancestors)
+  const boxTop = state.measureBox.getBoundingClientRect().top + state.measureBox.clientTop;
+  const lastBottom = lines[lines.length - 1].bottom - boxTop;
+  const tail = Math.max(0, state.measureBox.scrollHeight - lastBottom);
+
+  let predicted = 0;
+  while (predicted < lines.length - 1 && lines[predicted].bottom - boxTop + tail <= state.maxHeight) {
+    predicted++;
+  }
 
-  for (const sentence of sentences) {
-    const trimmed = sentence.trim();
-    if (!trimmed) continue;
+  let current = placed;
 
-    const words = trimmed.split(/\s+/);
+  // Start one line past the prediction in case it was conservative
+  for (let lineCount = Math.min(predicted + 1, lines.length - 1); lineCount > 0; lineCount--) {
+    const count = lines[lineCount].firstWord;
+    const fragment = cloneBetween(placed, null, words[count]);
+    current.replaceWith(fragment);
+    current = fragment;
 
-    if (words.length > 10) {
-      // Long sentence: split into 6-word groups
-      for (let i = 0; i < words.length; i += 6) {
-        const group = words.slice(i, i + 6).join(' ');
-        chunks.push(group);
-      }
-    } else {
-      // Short sentence: keep as one chunk
-      chunks.push(trimmed);
+    if (!isOverflowing(state)) {
+      return { fragment, count };
     }
   }
 
-  return chunks;
+  current.remove();
+  return null;
 }
 
 /**
- * Process remaining paragraph chunks on a new page
+ * Find the largest number of words of a paragraph that fits on the current page
+ * with a binary search over word boundaries
  */
-function processRemainingParagraphChunks(
-  originalP: HTMLElement,
-  chunks: string[],
+function fitParagraphWords(
+  placed: HTMLElement,
+  words: TextBoundary[],
   state: PaginationState
-): void {
-  if (chunks.length === 0) return;
+): ParagraphFit | null {
+  let current = placed;
+  let best: ParagraphFit | null = null;
+  let low = 1;
+  let high = words.length - 1;
+
+  while (low <= high) {
+    const count = Math.floor((low + high) / 2);
+    const fragment = cloneBetween(placed, null, words[count]);
+    current.replaceWith(fragment);
+    current = fragment;
+
+    if (!isOverflowing(state)) {
+      best = { fragment, count };
+      low = count + 1;
+    } else {
+      high = count - 1;
+    }
+  }
 
+  if (!best) {
+    current.remove();
+    return null;
+  }
+
+  if (current !== best.fragment) {
+    current.replaceWith(best.fragment);
+  }
+
+  return best;
+}
+
+/**
+ * Process the remaining part of a paragraph on a new page
+ */
+function processRemainingParagraph(paragraph: HTMLElement, state: PaginationState): void {
   const target = getCurrentTarget(state);
+  const minLines = getMinLinesBefore(state);
 
-  // Create paragraph clone
-  const pClone = originalP.cloneNode(false) as HTMLElement;
+  const pClone = paragraph.cloneNode(true) as HTMLElement;
   target.appendChild(pClone);
 
-  let addedText = '';
-  let chunkIndex = 0;
+  if (!isOverflowing(state)) {
+    // All remaining words fit
+    return;
+  }
 
-  while (chunkIndex < chunks.length) {
-    const chunk = chunks[chunkIndex];
+  if (getWordBoundaries(pClone).length < 2) {
+    // Nothing left to split - keep anyway
+    console.warn('Paragraph chunk too long for page');
+    return;
+  }
 
-    const newText = addedText ? addedText + ' ' + chunk : chunk;
-    pClone.textContent = newText;
+  let placed = pClone;
+  let { words, fit } = fitParagraph(placed, minLines, state);
 
-    if (state.measureBox.scrollHeight > state.maxHeight) {
-      if (!addedText) {
-        // Even a single chunk doesn't fit - add anyway
-        pClone.textContent = chunk;
-        addedText = chunk;
-        chunkIndex++;
-        console.warn('Paragraph chunk too long for page');
-      } else {
-        // Restore previous text
-        pClone.textContent = addedText;
-      }
+  if (!fit) {
+    // The orphan/widow rules can't be met even on this fresh page - split at the
+    // last line that fits instead of giving up on the rules one word at a time
+    placed = paragraph.cloneNode(true) as HTMLElement;
+    target.appendChild(placed);
+    ({ words, fit } = fitParagraph(placed, minLines, state, false));
+  }
 
-      // Continue on next page
-      startNewPage(state);
-      processRemainingParagraphChunks(originalP, chunks.slice(chunkIndex), state);
-      return;
-    }
+  const splitAt = fit ? fit.count : 1;
 
-    addedText = newText;
-    chunkIndex++;
+  if (!fit) {
+    // Even a single word doesn't fit - add it anyway
+    target.appendChild(cloneBetween(placed, null, words[1]));
+    console.warn('Paragraph chunk too long for page');
   }
 
-  // All remaining chunks fit
+  // Continue on next page
+  startNewPage(state);
+  processRemainingParagraph(cloneBetween(placed, words[splitAt], null), state);
 }
 
 /**
@@ -703,11 +1540,18 @@ function trySplitContainer(element: HTMLElement, state: PaginationState): boolea
   console.log(`[Container] Start split <${tag}> with ${children.length} children`);
 
   const target = getCurrentTarget(state);
+  const afterHeading = getTrailingHeadings(state).length > 0;
 
   // Create empty container
-  const container = element.cloneNode(false) as HTMLElement;
+  let container = element.cloneNode(false) as HTMLElement;
   target.appendChild(container);
 
+  // A reversed list counts down from its item count - make that explicit,
+  // as each fragment holds fewer items
+  if (tag === 'ol' && element.hasAttribute('reversed') && !element.hasAttribute('start')) {
+    container.setAttribute('start', String(element.querySelectorAll(':scope > li').length));
+  }
+
   // Push to ancestor stack
   state.ancestorStack.push({ element: container });
 
@@ -717,14 +1561,29 @@ function trySplitContainer(element: HTMLElement, state: PaginationState): boolea
   for (let idx = 0; idx < children.length; idx++) {
     const child = children[idx];
     const childTag = child.tagName.toLowerCase();
+    const nestedList = child.querySelector(':scope > ul, :scope > ol');
+
+    // Forced break at or inside this child: hand it and the rest to the normal flow
+    // (an <li> with a nested list recurses into the list below instead)
+    const hasNestedListItem = childTag === 'li' && !!nestedList;
+    if (hasForcedBreak(child, state) || (state.breakContainers.has(child) && !hasNestedListItem)) {
+      for (const remaining of children.slice(idx)) {
+        processElement(remaining, state);
+      }
+      state.ancestorStack.pop();
+      return true;
+    }
+
+    // Keep-together children are cloned whole and never split
+    const keepTogether = isKeptTogether(child, state);
 
     // For nested lists: don't clone whole thing, recurse
-    if (childTag === 'ul' || childTag === 'ol') {
+    if ((childTag === 'ul' || childTag === 'ol') && !keepTogether) {
       // Recursively process nested list
       const nestedResult = trySplitContainer(child, state);
       if (!nestedResult) {
         // Nested list couldn't fit at all
-        if (fittedCount === 0) {
+        if (fittedCount === 0 || (afterHeading && !hasMinContent(container, state))) {
           container.remove();
           state.ancestorStack.pop();
           return false;
@@ -739,14 +1598,16 @@ function trySplitContainer(element: HTMLElement, state: PaginationState): boolea
         return true;
       }
       fittedCount++;
+
+      // The nested list may have moved on to a new page, where this container was reopened
+      container = getCurrentTarget(state);
       continue;
     }
 
     // For <li> with nested list: add content first, then recurse for nested list
-    const nestedList = child.querySelector(':scope > ul, :scope > ol');
     let childClone: HTMLElement;
 
-    if (nestedList && childTag === 'li') {
+    if (nestedList && childTag === 'li' && !keepTogether) {
       // Clone li without the nested list
       childClone = child.cloneNode(false) as HTMLElement;
       // Add all children except the nested list
@@ -759,11 +1620,11 @@ function trySplitContainer(element: HTMLElement, state: PaginationState): boolea
       fittedElements.push(childClone);
 
       // Check overflow after adding li content (before nested list)
-      if (state.measureBox.scrollHeight > state.maxHeight) {
+      if (isOverflowing(state)) {
         childClone.remove();
         fittedElements.pop();
         // Handle overflow same as below
-        if (fittedCount === 0) {
+        if (fittedCount === 0 || (afterHeading && !hasMinContent(container, state))) {
           container.remove();
           state.ancestorStack.pop();
           return false;
@@ -782,12 +1643,17 @@ function trySplitContainer(element: HTMLElement, state: PaginationState): boolea
 
       // Now process the nested list inside this li
       state.ancestorStack.push({ element: childClone });
-      const nestedResult = trySplitContainer(nestedList as HTMLElement, state);
+      if (!trySplitContainer(nestedList as HTMLElement, state)) {
+        // Nested list couldn't start here - continue it on the next page, in the reopened item
+        startNewPage(state);
+        if (!trySplitContainer(nestedList as HTMLElement, state)) {
+          getCurrentTarget(state).appendChild(nestedList.cloneNode(true));
+        }
+      }
       state.ancestorStack.pop();
 
-      if (!nestedResult) {
-        // Nested list couldn't start - will be handled on next page via remaining processing
-      }
+      // The nested list may have moved on to a new page, where this container was reopened
+      container = getCurrentTarget(state);
       continue;
     }
 
@@ -796,11 +1662,12 @@ function trySplitContainer(element: HTMLElement, state: PaginationState): boolea
     container.appendChild(childClone);
 
     const childText = (child.textContent || '').trim().slice(0, 40);
-    const scrollHeight = state.measureBox.scrollHeight;
-    console.log(`[Container] Child ${idx}/${children.length} <${childTag}>: "${childText}..." | height=${scrollHeight}/${state.maxHeight} | overflow=${scrollHeight > state.maxHeight}`);
+    const overflow = isOverflowing(state);
+    console.log(`[Container] Child ${idx}/${children.length} <${childTag}>: "${childText}..." | height=${state.measureBox.scrollHeight}/${state.maxHeight} | overflow=${overflow}`);
 
-    if (scrollHeight > state.maxHeight) {
+    if (overflow) {
       // This child caused overflow
+      const childTooTall = childClone.offsetHeight > state.maxHeight;
       childClone.remove();
       console.log(`[Container] Child ${idx} removed, fittedCount=${fittedCount}`);
 
@@ -819,7 +1686,7 @@ function trySplitContainer(element: HTMLElement, state: PaginationState): boolea
       }
 
       // If we haven't fitted anything and this is first child, try to split it
-      if (fittedCount === 0) {
+      if (fittedCount === 0 && !keepTogether) {
         const childTag = child.tagName.toLowerCase();
         let didSplit = false;
 
@@ -831,19 +1698,30 @@ function trySplitContainer(element: HTMLElement, state: PaginationState): boolea
 
         if (didSplit) {
           fittedCount++;
-          // Continue processing remaining children
-          state.ancestorStack.pop();
-
+          // Continue processing remaining children inside the (possibly reopened) container
           const remainingChildren = children.slice(children.indexOf(child) + 1);
           for (const remaining of remainingChildren) {
             processElement(remaining, state);
           }
+          state.ancestorStack.pop();
           return true;
         }
       }
 
-      // Can't fit this child
-      if (fittedCount === 0) {
+      // First child taller than a whole page (kept together, or not splittable):
+      // only it gets the oversize treatment, the children after it paginate as usual
+      if (fittedCount === 0 && isAtPageStart(state, childTooTall)) {
+        container.appendChild(childClone);
+        fitOversized(childClone, state);
+        for (const remaining of children.slice(idx + 1)) {
+          processElement(remaining, state);
+        }
+        state.ancestorStack.pop();
+        return true;
+      }
+
+      // Can't fit this child (or too little would stay with the heading before it)
+      if (fittedCount === 0 || (afterHeading && !hasMinContent(container, state))) {
         // Nothing fits, remove container and fail
         container.remove();
         state.ancestorStack.pop();
@@ -881,57 +1759,232 @@ function trySplitContainer(element: HTMLElement, state: PaginationState): boolea
  */
 function startNewPage(state: PaginationState): void {
   // Before finalizing, check for trailing headings and move them to next page
-  const trailingHeadings = popTrailingHeadings(state.currentPage);
+  const trailingHeadings = popTrailingHeadings(state);
+
+  // Open ancestors that are still empty are dropped - they are reopened on the new page
+  removeEmptyAncestors(state);
 
   // Save current page
   finalizePage(state);
 
-  // Create new page
+  // Create new page, in the orientation of the content being placed
   state.currentPage = createPageDiv();
   state.measureBox.innerHTML = '';
   state.measureBox.appendChild(state.currentPage);
+  setPageOrientation(state, state.orientation);
 
   // Reopen ancestors
   reopenAncestors(state);
 
-  // Add trailing headings to new page
-  const target = getCurrentTarget(state);
-  for (const heading of trailingHeadings) {
-    target.appendChild(heading);
+  // Add trailing headings to new page, inside the same reopened ancestors
+  for (const { element, level } of trailingHeadings) {
+    const parent = level === 0 ? state.currentPage : state.ancestorStack[level - 1].element;
+    parent.insertBefore(element, state.ancestorStack[level]?.element ?? null);
   }
 }
 
 /**
- * Remove trailing headings from a page and return them
+ * Find the headings (or run of consecutive headings) at the end of the current page.
+ * Looks through open ancestors, so a heading that is the last content of a
+ * <section> or <div> still being filled counts as trailing.
+ * Returns nothing when the headings are all the page holds - moving them wouldn't help.
  */
-function popTrailingHeadings(page: HTMLElement): HTMLElement[] {
-  const headings: HTMLElement[] = [];
+function getTrailingHeadings(state: PaginationState): TrailingHeading[] {
+  const headings: TrailingHeading[] = [];
+
+  for (let level = state.ancestorStack.length; level >= 0; level--) {
+    const parent = level === 0 ? state.currentPage : state.ancestorStack[level - 1].element;
+    const inner = state.ancestorStack[level]?.element;
+
+    // Content before the open inner ancestor (which holds nothing but headings)
+    for (let node = inner ? inner.previousSibling : parent.lastChild; node; node = node.previousSibling) {
+      if (isIgnorableNode(node)) continue;
+      if (!(node instanceof HTMLElement) || !/^H[1-6]$/.test(node.tagName)) {
+        return headings;
+      }
+      headings.unshift({ element: node, level });
+    }
+  }
 
-  while (page.lastElementChild) {
-    const last = page.lastElementChild as HTMLElement;
-    const tag = last.tagName.toLowerCase();
+  return [];
+}
 
-    if (tag.match(/^h[1-6]$/)) {
-      headings.unshift(last); // Add to front to maintain order
-      last.remove();
-    } else {
-      break;
-    }
+/**
+ * Remove trailing headings from the current page and return them
+ */
+function popTrailingHeadings(state: PaginationState): TrailingHeading[] {
+  const headings = getTrailingHeadings(state);
+
+  for (const { element } of headings) {
+    element.remove();
   }
 
   return headings;
 }
 
+/**
+ * Minimum number of lines of a paragraph to keep on the current page when splitting it:
+ * orphanLines, or minContentLines right after a heading
+ */
+function getMinLinesBefore(state: PaginationState): number {
+  const { orphanLines, minContentLines } = state.options;
+  return getTrailingHeadings(state).length > 0 ? Math.max(orphanLines, minContentLines) : orphanLines;
+}
+
+/**
+ * Check if a split fragment keeps at least minContentLines lines of content
+ */
+function hasMinContent(fragment: HTMLElement, state: PaginationState): boolean {
+  const lineHeight = measureLineHeight(fragment) || 20;
+  return fragment.offsetHeight >= state.options.minContentLines * lineHeight;
+}
+
 /**
  * Finalize and save current page
  */
 function finalizePage(state: PaginationState): void {
+  const element = state.currentPage.cloneNode(true) as HTMLElement;
+  const rotated = element.classList.contains('folio-page-rotated');
+
+  // Running totals bookkeeping isn't part of the output
+  element.querySelectorAll(`[${SUM_COLUMN_ATTR}]`).forEach(cell => cell.removeAttribute(SUM_COLUMN_ATTR));
+
+  // Footnotes at the bottom of the content box; those that don't fit continue on the next page
+  const carried = state.footnoteCarry[0];
+  updateFootnoteArea(state);
+  state.footnoteCarry = [];
+  if (state.footnoteArea.childElementCount > 0) {
+    // A note that couldn't be cut on the previous page is clipped on this one, as on a page of notes only
+    const force = state.footnoteStuck || state.currentPage.childNodes.length === 0;
+    state.footnoteCarry = splitFootnoteArea(state.footnoteArea, state.contentHeight - state.measureBox.scrollHeight, force);
+    const footnotes = state.footnoteArea.cloneNode(true) as HTMLElement;
+    footnotes.style.bottom = '0';
+    element.style.position = 'relative';
+    element.style.height = `${state.contentHeight}px`;
+    element.appendChild(footnotes);
+  }
+  state.footnoteStuck = carried !== undefined && state.footnoteCarry[0] === carried;
+  state.footnoteKey = null;
+
+  // Turn the sideways content a quarter counter-clockwise into the page content box
+  if (rotated) {
+    const size = getPageSize(state.pageOrientation, state.options);
+    element.style.height = `${size.contentWidth}px`;
+    element.style.transformOrigin = 'top left';
+    element.style.transform = `translateY(${size.contentHeight}px) rotate(-90deg)`;
+  }
+
   state.pages.push({
-    element: state.currentPage.cloneNode(true) as HTMLElement,
-    pageNumber: state.pages.length + 1
+    element,
+    pageNumber: state.pages.length + 1,
+    orientation: state.pageOrientation,
+    rotated,
+    running: {}
   });
 }
 
+/**
+ * Page and content size of a page in an orientation. The options describe pages
+ * in the document orientation; the other orientation swaps width and height
+ * and keeps the padding of each side.
+ */
+export function getPageSize(
+  orientation: Orientation,
+  options: ResolvedOptions
+): { pageWidth: number; pageHeight: number; contentWidth: number; contentHeight: number } {
+  if (orientation === options.orientation) {
+    const { pageWidth, pageHeight, contentWidth, contentHeight } = options;
+    return { pageWidth, pageHeight, contentWidth, contentHeight };
+  }
+
+  return {
+    pageWidth: options.pageHeight,
+    pageHeight: options.pageWidth,
+    contentWidth: options.pageHeight - options.padding.left - options.padding.right,
+    contentHeight: options.pageWidth - options.padding.top - options.padding.bottom,
+  };
+}
+
+/**
+ * Give the current page an orientation: its content width and the height available
+ */
+function setPageOrientation(state: PaginationState, orientation: Orientation): void {
+  const size = getPageSize(orientation, state.options);
+  state.pageOrientation = orientation;
+  state.currentPage.style.width = orientation === state.options.orientation ? '' : `${size.contentWidth}px`;
+  setContentBox(state, size.contentWidth, size.contentHeight);
+}
+
+/**
+ * Set the content box of the current page. The footnote area is laid out again at its width.
+ */
+function setContentBox(state: PaginationState, width: number, height: number): void {
+  state.contentHeight = height;
+  state.maxHeight = height;
+  state.footnoteKey = null;
+  state.footnoteArea.parentElement!.style.width = `${width}px`;
+}
+
+/**
+ * Lay out the notes of the footnote references on the current page (after the notes
+ * continued from the previous page) in the footnote area, and take its height off
+ * the height left for content. The area counts for at most half the page: the
+ * notes that don't fit continue on the next page.
+ */
+function updateFootnoteArea(state: PaginationState): void {
+  if (state.footnotes.size === 0) return;
+
+  // A reference cut by a paragraph split leaves an empty copy on the other side
+  const refs = Array.from(state.currentPage.querySelectorAll(`[${FOOTNOTE_REF_ATTR}]`))
+    .filter(ref => ref.textContent?.trim());
+  const numbers = refs.map(ref => ref.getAttribute(FOOTNOTE_REF_ATTR)!);
+  const key = numbers.join(' ');
+  if (key === state.footnoteKey) return;
+  state.footnoteKey = key;
+
+  const notes = numbers.map(number => state.footnotes.get(number)!.cloneNode(true) as HTMLElement);
+  state.footnoteArea.replaceChildren(...state.footnoteCarry, ...notes);
+
+  const height = state.footnoteArea.childElementCount > 0 ? state.footnoteArea.offsetHeight : 0;
+  state.maxHeight = state.contentHeight - Math.min(height, state.contentHeight / 2);
+}
+
+/**
+ * How much the current page overflows (negative: space left), footnotes included
+ */
+function getOverflow(state: PaginationState): number {
+  updateFootnoteArea(state);
+  return state.measureBox.scrollHeight - state.maxHeight;
+}
+
+/**
+ * Whether the current page overflows, footnotes included
+ */
+function isOverflowing(state: PaginationState): boolean {
+  return getOverflow(state) > 0;
+}
+
+/**
+ * Orientation an element asks for: data-folio-orientation, or landscape for an image
+ * (alone or in a <figure>) that is clearly landscape and wider than the page
+ */
+function getElementOrientation(element: HTMLElement, state: PaginationState): Orientation | null {
+  const value = element.getAttribute('data-folio-orientation');
+  if (value === 'landscape' || value === 'portrait') return value;
+
+  const img = element.tagName === 'IMG'
+    ? element as HTMLImageElement
+    : element.tagName === 'FIGURE' ? element.querySelector('img') : null;
+  if (!img || state.orientation === 'landscape') return null;
+
+  const { contentWidth } = getPageSize(state.orientation, state.options);
+  if (img.naturalWidth > contentWidth && shouldRotateForImage(img, state.options)) {
+    return 'landscape';
+  }
+
+  return null;
+}
+
 /**
  * Get current target element (innermost open ancestor or page)
  */
@@ -942,6 +1995,52 @@ function getCurrentTarget(state: PaginationState): HTMLElement {
   return state.currentPage;
 }
 
+/**
+ * Check if nothing has been placed on the current page yet,
+ * apart from reopened ancestors and their repeated table parts
+ * (and, with allowHeadings, headings that would move along with what follows them)
+ */
+function isAtPageStart(state: PaginationState, allowHeadings = false): boolean {
+  let parent: HTMLElement = state.currentPage;
+
+  for (let level = 0; ; level++) {
+    const next: HTMLElement | undefined = state.ancestorStack[level]?.element;
+
+    for (const child of Array.from(parent.childNodes)) {
+      if (child === next || isIgnorableNode(child)) continue;
+      if (allowHeadings && child instanceof HTMLElement && /^H[1-6]$/.test(child.tagName)) continue;
+      return false;
+    }
+
+    if (!next) return true;
+    parent = next;
+  }
+}
+
+/**
+ * Table parts that are repeated on every fragment and don't count as content
+ */
+const REPEATED_TABLE_PARTS = new Set(['THEAD', 'TFOOT', 'COLGROUP', 'CAPTION']);
+
+/**
+ * Check if a node doesn't count as page content (whitespace, repeated table parts)
+ */
+function isIgnorableNode(node: Node): boolean {
+  if (node.nodeType === Node.TEXT_NODE) return !node.textContent?.trim();
+  return node instanceof HTMLElement && REPEATED_TABLE_PARTS.has(node.tagName);
+}
+
+/**
+ * Remove open ancestors that hold no content yet, innermost first
+ */
+function removeEmptyAncestors(state: PaginationState): void {
+  for (let i = state.ancestorStack.length - 1; i >= 0; i--) {
+    const ancestor = state.ancestorStack[i].element;
+    if (!Array.from(ancestor.childNodes).every(isIgnorableNode)) break;
+    ancestor.remove();
+  }
+}
+
 /**
  * Reopen ancestor containers on new page
  */
@@ -951,11 +2050,23 @@ function reopenAncestors(state: PaginationState): void {
 
   let target = state.currentPage;
 
-  for (const ancestor of oldStack) {
+  for (let i = 0; i < oldStack.length; i++) {
+    const ancestor = oldStack[i];
+
     // Clone without children
     const reopened = ancestor.element.cloneNode(false) as HTMLElement;
     target.appendChild(reopened);
 
+    // Ordered lists continue their numbering
+    if (reopened.tagName === 'OL') {
+      continueListNumbering(ancestor.element, reopened, oldStack[i + 1]?.element);
+    }
+
+    // A list item continued from the previous page doesn't repeat its marker
+    if (reopened.tagName === 'LI') {
+      reopened.style.listStyleType = 'none';
+    }
+
     // For tables, re-add thead
     if (ancestor.thead && reopened.tagName === 'TABLE') {
       reopened.appendChild(ancestor.thead.cloneNode(true));
@@ -969,12 +2080,29 @@ function reopenAncestors(state: PaginationState): void {
   }
 }
 
+/**
+ * Set the start of a reopened ordered list to follow its fragment on the previous page.
+ * When an item is continued (its nested list was split), the list restarts at that item.
+ */
+function continueListNumbering(
+  previous: HTMLElement,
+  reopened: HTMLElement,
+  continuedItem: HTMLElement | undefined
+): void {
+  const { ordinals, next } = getListItemOrdinals(previous);
+  const start = (continuedItem && ordinals.get(continuedItem)) ?? next;
+  reopened.setAttribute('start', String(start));
+}
+
 /**
  * Check if element can be split (generic containers)
  */
 function isSplittable(el: HTMLElement): boolean {
+  // Tables of contents and indexes hold a single generated list (or letter group) that splits
+  if (el.matches('folio-toc, [data-folio-toc], folio-index')) return el.children.length > 0;
+
   const tag = el.tagName.toLowerCase();
-  const splittableTags = ['ul', 'ol', 'div', 'blockquote', 'section', 'article', 'dl', 'li'];
+  const splittableTags = ['ul', 'ol', 'div', 'blockquote', 'section', 'article', 'dl', 'li', 'nav'];
   return splittableTags.includes(tag) && el.children.length > 1;
 }
 
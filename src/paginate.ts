@@ -10,6 +10,7 @@ import type {
 import { DEFAULT_OPTIONS, PAGE_SIZES } from './types.js';
 import { getBlockChildren, groupConsecutiveHeadings } from './measure.js';
 import { getHandlerRegistry } from './handlers/index.js';
+import { extractEndnotes } from './notes.js';
 
 /**
  * Resolve options with defaults
@@ -59,13 +60,20 @@ export function resolveOptions(options: PaginateOptions = {}): ResolvedOptions {
   if (options.orphanLines !== undefined) resolved.orphanLines = options.orphanLines;
   if (options.widowLines !== undefined) resolved.widowLines = options.widowLines;
   if (options.minContentLines !== undefined) resolved.minContentLines = options.minContentLines;
+  if (options.textBreakMode !== undefined) resolved.textBreakMode = options.textBreakMode;
   if (options.minItemsForSplit !== undefined) resolved.minItemsForSplit = options.minItemsForSplit;
   if (options.minRowsForSplit !== undefined) resolved.minRowsForSplit = options.minRowsForSplit;
   if (options.repeatTableHeader !== undefined) resolved.repeatTableHeader = options.repeatTableHeader;
+  if (options.repeatTableFooter !== undefined) resolved.repeatTableFooter = options.repeatTableFooter;
+  if (options.continuedTableCaption !== undefined) resolved.continuedTableCaption = options.continuedTableCaption;
+  if (options.formatTableSum !== undefined) resolved.formatTableSum = options.formatTableSum;
+  if (options.splitWideTables !== undefined) resolved.splitWideTables = options.splitWideTables;
   if (options.enableLineWrapMarkers !== undefined) resolved.enableLineWrapMarkers = options.enableLineWrapMarkers;
   if (options.oversizeStrategy !== undefined) resolved.oversizeStrategy = options.oversizeStrategy;
   if (options.enablePageRotation !== undefined) resolved.enablePageRotation = options.enablePageRotation;
   if (options.skipEmptyElements !== undefined) resolved.skipEmptyElements = options.skipEmptyElements;
+  if (options.footnoteMode !== undefined) resolved.footnoteMode = options.footnoteMode;
+  if (options.runningHeadings !== undefined) resolved.runningHeadings = options.runningHeadings;
 
   return resolved;
 }
@@ -141,6 +149,11 @@ export async function paginate(
   const resolved = resolveOptions(options);
   const registry = getHandlerRegistry();
 
+  // Gather footnotes into endnotes sections (bottom-of-page footnotes are v2 only)
+  if (resolved.footnoteMode === 'endnotes') {
+    extractEndnotes(container);
+  }
+
   // Measure all blocks using handler registry
   const children = getBlockChildren(container);
   let blocks: MeasuredBlock[] = [];
@@ -0,0 +1,115 @@
+/**
+ * Cross-references
+ *
+ * A link with `data-folio-ref` shows something about the element it points to:
+ * - 'page': the page the target starts on (known after layout, resolved like
+ *   the table of contents by laying out again)
+ * - 'number': the target's `data-folio-number`, its section number for a heading
+ *   ("2.1"), or its position among the elements of its kind (4th figure: "4")
+ * - 'text': the target's caption, or its text
+ */
+
+const REF_SELECTOR = 'a[data-folio-ref]';
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6';
+
+/**
+ * Shown for a target that doesn't exist, or whose page isn't known yet
+ */
+const UNRESOLVED = '??';
+
+/**
+ * Whether a container has references to pages
+ */
+export function hasPageReferences(root: HTMLElement | DocumentFragment): boolean {
+  return root.querySelector(`${REF_SELECTOR}[data-folio-ref="page"]`) !== null;
+}
+
+/**
+ * Fill the cross-references of a container.
+ * `pageNumbers` maps element ids to pages (empty before the first layout).
+ */
+export function resolveCrossReferences(root: HTMLElement | DocumentFragment, pageNumbers: Map<string, number>): void {
+  const refs = Array.from(root.querySelectorAll<HTMLAnchorElement>(REF_SELECTOR));
+  if (refs.length === 0) return;
+
+  const sectionNumbers = getSectionNumbers(root);
+
+  for (const ref of refs) {
+    const id = decodeURIComponent((ref.getAttribute('href') || '').replace(/^#/, ''));
+    const target = id ? findById(root, id) : null;
+
+    let value: string | null = null;
+    if (target) {
+      switch (ref.getAttribute('data-folio-ref')) {
+        case 'page':
+          value = pageNumbers.has(id) ? String(pageNumbers.get(id)) : null;
+          break;
+        case 'number':
+          value = getTargetNumber(root, target, sectionNumbers);
+          break;
+        case 'text':
+          value = getTargetText(target);
+          break;
+      }
+    }
+
+    ref.textContent = value ?? UNRESOLVED;
+  }
+}
+
+/**
+ * Find an element by id (querySelector would need the id escaped)
+ */
+function findById(root: HTMLElement | DocumentFragment, id: string): HTMLElement | null {
+  return Array.from(root.querySelectorAll<HTMLElement>('[id]')).find(el => el.id === id) ?? null;
+}
+
+/**
+ * Number each heading by its position in the outline ("2", "2.1", "2.1.3")
+ */
+function getSectionNumbers(root: HTMLElement | DocumentFragment): Map<HTMLElement, string> {
+  const numbers = new Map<HTMLElement, string>();
+  const counters: number[] = [];
+
+  for (const heading of Array.from(root.querySelectorAll<HTMLElement>(HEADING_SELECTOR))) {
+    if (heading.closest('folio-toc, [data-folio-toc]')) continue;
+
+    const level = parseInt(heading.tagName.substring(1));
+    counters.length = level;
+    for (let i = 0; i < level; i++) counters[i] = counters[i] ?? 0;
+    counters[level - 1]++;
+
+    // Levels skipped above the heading (an h3 under an h1) don't show as "0"
+    const first = counters.findIndex(counter => counter > 0);
+    numbers.set(heading, counters.slice(first).join('.'));
+  }
+
+  return numbers;
+}
+
+/**
+ * Number of a target: its data-folio-number, its section number, or its
+ * position among the elements with the same tag
+ */
+function getTargetNumber(
+  root: HTMLElement | DocumentFragment,
+  target: HTMLElement,
+  sectionNumbers: Map<HTMLElement, string>
+): string {
+  const explicit = target.getAttribute('data-folio-number');
+  if (explicit) return explicit;
+
+  const section = sectionNumbers.get(target);
+  if (section) return section;
+
+  const sameKind = Array.from(root.querySelectorAll(target.tagName));
+  return String(sameKind.indexOf(target) + 1);
+}
+
+/**
+ * Text of a target: the caption of a figure or table, otherwise its text
+ */
+function getTargetText(target: HTMLElement): string {
+  const caption = target.querySelector(':scope > figcaption, :scope > caption');
+  return ((caption ?? target).textContent || '').replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,141 @@
+/**
+ * Running headers and footers
+ *
+ * Declared as `<template slot="header">` / `<template slot="footer">` children of
+ * <folio-pages>, with `-first`, `-odd` and `-even` variants. Each page gets a copy
+ * of the matching template in its top / bottom padding, with the placeholders
+ * {page}, {pages}, {section} and {title} filled in, and running strings with
+ * {<name>} (first value on the page), {<name>:start} and {<name>:last}.
+ */
+
+import type { RunningStrings } from './types.js';
+import { getPageHeadings } from './outline.js';
+
+export type RegionKind = 'header' | 'footer';
+
+/**
+ * Templates of one region, by variant ('default', 'first', 'odd', 'even')
+ */
+export type RegionTemplates = Map<string, HTMLTemplateElement>;
+
+/**
+ * Values of the placeholders on a page
+ */
+export interface RegionContext {
+  page: number;
+  pages: number;
+  section: string;
+  title: string;
+  running: RunningStrings;
+}
+
+const SLOT_PATTERN = /^(header|footer)(?:-(first|odd|even))?$/;
+const PLACEHOLDER_PATTERN = /\{([\w-]+)(?::(start|first|last))?\}/g;
+
+/**
+ * Take the header and footer templates out of the content to paginate
+ */
+export function extractRegions(content: DocumentFragment | HTMLElement): Record<RegionKind, RegionTemplates> {
+  const regions: Record<RegionKind, RegionTemplates> = { header: new Map(), footer: new Map() };
+
+  for (const child of Array.from(content.children)) {
+    const match = child.tagName === 'TEMPLATE' && SLOT_PATTERN.exec(child.getAttribute('slot') || '');
+    if (!match) continue;
+
+    regions[match[1] as RegionKind].set(match[2] ?? 'default', child as HTMLTemplateElement);
+    child.remove();
+  }
+
+  return regions;
+}
+
+/**
+ * Pick the template of a region for a page: the first-page variant on page 1,
+ * then the odd/even variant, then the plain one
+ */
+function getTemplate(templates: RegionTemplates, page: number): HTMLTemplateElement | undefined {
+  if (page === 1 && templates.has('first')) return templates.get('first');
+  return templates.get(page % 2 === 1 ? 'odd' : 'even') ?? templates.get('default');
+}
+
+/**
+ * Render the header or footer of a page, or null when there is no template for it.
+ * The region fills the page's top (or bottom) padding, between the side paddings.
+ */
+export function renderRegion(
+  kind: RegionKind,
+  templates: RegionTemplates,
+  context: RegionContext,
+  padding: { top: number; right: number; bottom: number; left: number }
+): HTMLElement | null {
+  const template = getTemplate(templates, context.page);
+  if (!template) return null;
+
+  const region = document.createElement('div');
+  region.className = `folio-page-${kind}`;
+  region.style.cssText = `
+    position: absolute;
+    ${kind === 'header' ? 'top' : 'bottom'}: 0;
+    left: ${padding.left}px;
+    right: ${padding.right}px;
+    height: ${kind === 'header' ? padding.top : padding.bottom}px;
+    display: flex;
+    flex-direction: column;
+    justify-content: center;
+    box-sizing: border-box;
+    overflow: hidden;
+  `;
+  region.appendChild(document.importNode(template.content, true));
+  fillPlaceholders(region, context);
+
+  return region;
+}
+
+/**
+ * Replace the placeholders in the text and attributes of an element
+ */
+function fillPlaceholders(root: HTMLElement, context: RegionContext): void {
+  const values: Record<string, string | number> = {
+    page: context.page,
+    pages: context.pages,
+    section: context.section,
+    title: context.title,
+  };
+  const fill = (text: string) => text.replace(
+    PLACEHOLDER_PATTERN,
+    (placeholder, key: string, position?: 'start' | 'first' | 'last') => {
+      if (!position && key in values) return String(values[key]);
+      const running = context.running[key];
+      return running ? running[position ?? 'first'] : placeholder;
+    }
+  );
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT | NodeFilter.SHOW_ELEMENT);
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      node.textContent = fill(node.textContent || '');
+      continue;
+    }
+    for (const attr of Array.from((node as Element).attributes)) {
+      attr.value = fill(attr.value);
+    }
+  }
+}
+
+/**
+ * Get the section title of each page: the first h1/h2 on the page,
+ * or the last one on an earlier page
+ */
+export function getSectionTitles(pages: HTMLElement[]): string[] {
+  let current = '';
+
+  return pages.map(page => {
+    const headings = getPageHeadings(page, 'h1, h2')
+      .map(heading => heading.textContent?.trim() || '')
+      .filter(Boolean);
+
+    const section = headings[0] ?? current;
+    current = headings[headings.length - 1] ?? current;
+    return section;
+  });
+}
@@ -0,0 +1,54 @@
+/**
+ * Running strings
+ *
+ * Headings named with `data-folio-running="chapter"`, or every heading of a level
+ * mapped by the `runningHeadings` option, set a running string (like CSS
+ * `string-set`). Each page records, per name, the value in effect when it starts,
+ * the first value set on it and the value in effect when it ends.
+ */
+
+import type { RunningStrings } from './types.js';
+import { getPageHeadings } from './outline.js';
+
+/**
+ * Name of the running string a heading sets, if any
+ */
+function getRunningName(heading: HTMLElement, levels: Record<string, number>): string | null {
+  const name = heading.getAttribute('data-folio-running');
+  if (name) return name;
+
+  const level = parseInt(heading.tagName.substring(1));
+  return Object.keys(levels).find(key => levels[key] === level) ?? null;
+}
+
+/**
+ * Get the running strings of each page, from the headings on the pages in order
+ */
+export function getRunningStrings(pages: HTMLElement[], levels: Record<string, number>): RunningStrings[] {
+  const current: Record<string, string> = {};
+
+  return pages.map(page => {
+    const running: RunningStrings = {};
+    for (const name of Object.keys(current)) {
+      running[name] = { start: current[name], first: current[name], last: current[name] };
+    }
+
+    // Names set by a heading on this page
+    const set = new Set<string>();
+
+    for (const heading of getPageHeadings(page)) {
+      const name = getRunningName(heading, levels);
+      if (!name) continue;
+
+      const text = (heading.textContent || '').replace(/\s+/g, ' ').trim();
+      if (!running[name]) running[name] = { start: '', first: '', last: '' };
+      if (!set.has(name)) running[name].first = text;
+      running[name].last = text;
+
+      set.add(name);
+      current[name] = text;
+    }
+
+    return running;
+  });
+}
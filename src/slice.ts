@@ -0,0 +1,194 @@
+/**
+ * Image slicing utilities
+ *
+ * An <img>, <svg> or <canvas> marked with data-folio-slice that is taller than a
+ * page is cut into horizontal slices, one per page. SVG slices show a band of the
+ * drawing through their viewBox, images are offset inside a clipping box and
+ * canvases are shown as an image of their bitmap, offset the same way.
+ */
+
+const SLICEABLE_TAGS = new Set(['IMG', 'SVG', 'CANVAS']);
+
+/**
+ * Bitmap of a sliced canvas, as a data URL: cloning a canvas doesn't copy its
+ * pixels, so they are kept on the copies the paginator works from
+ */
+const CANVAS_BITMAP_ATTR = 'data-folio-slice-bitmap';
+const SLICED_CANVAS_SELECTOR = 'canvas[data-folio-slice]';
+
+/**
+ * Whether an element asks to be sliced across pages
+ */
+export function isSliceable(el: Element): boolean {
+  return el.hasAttribute('data-folio-slice') && SLICEABLE_TAGS.has(el.tagName.toUpperCase());
+}
+
+/**
+ * Pixels each slice repeats from the bottom of the previous one (data-folio-slice-overlap)
+ */
+export function getSliceOverlap(el: Element): number {
+  return Math.max(0, parseFloat(el.getAttribute('data-folio-slice-overlap') || '0') || 0);
+}
+
+/**
+ * Copy of a sliceable element to place whole (a canvas as an image of its bitmap)
+ */
+export function cloneSliceable(el: HTMLElement): HTMLElement {
+  return el.tagName.toUpperCase() === 'CANVAS'
+    ? createCanvasImage(el as HTMLCanvasElement)
+    : el.cloneNode(true) as HTMLElement;
+}
+
+/**
+ * Keep the bitmaps of the sliced canvases of a container on their copies in a
+ * clone of it. Must be called with the original content, before it is cloned again.
+ */
+export function captureCanvasBitmaps(source: ParentNode, clone: ParentNode): void {
+  const canvases = Array.from(source.querySelectorAll<HTMLCanvasElement>(SLICED_CANVAS_SELECTOR));
+  const copies = clone.querySelectorAll<HTMLCanvasElement>(SLICED_CANVAS_SELECTOR);
+
+  canvases.forEach((canvas, index) => {
+    const bitmap = getCanvasBitmap(canvas);
+    if (bitmap && copies[index]) copies[index].setAttribute(CANVAS_BITMAP_ATTR, bitmap);
+  });
+}
+
+/**
+ * Bitmap of a canvas as a data URL: the one captured before cloning, or its own
+ * (null when a cross-origin image tainted it)
+ */
+function getCanvasBitmap(canvas: HTMLCanvasElement): string | null {
+  const captured = canvas.getAttribute(CANVAS_BITMAP_ATTR);
+  if (captured) return captured;
+
+  try {
+    return canvas.toDataURL();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rendered size of an element, falling back to its width/height attributes without layout
+ */
+export function getRenderedSize(el: Element): { width: number; height: number } {
+  const rect = el.getBoundingClientRect();
+  return {
+    width: rect.width || (el as HTMLElement).offsetWidth || parseFloat(el.getAttribute('width') || '0') || 0,
+    height: rect.height || (el as HTMLElement).offsetHeight || parseFloat(el.getAttribute('height') || '0') || 0,
+  };
+}
+
+/**
+ * Create the slice of an element showing the band [top, top + height) of it,
+ * at its rendered size. The slice is a clipping box holding the band.
+ */
+export function createSlice(
+  source: Element,
+  top: number,
+  height: number,
+  size: { width: number; height: number },
+  index: number
+): HTMLElement {
+  const slice = document.createElement('div');
+  slice.className = 'folio-slice';
+  slice.setAttribute('data-folio-slice-index', String(index + 1));
+  slice.style.cssText = `
+    width: ${size.width}px;
+    height: ${height}px;
+    overflow: hidden;
+  `;
+
+  const tag = source.tagName.toUpperCase();
+  if (tag === 'SVG') {
+    slice.appendChild(sliceSVG(source as SVGSVGElement, top, height, size));
+  } else {
+    // A canvas drawn into would lose its pixels when the page is cloned - show its bitmap instead
+    const img = cloneSliceable(source as HTMLElement);
+    img.style.display = 'block';
+    img.style.width = `${size.width}px`;
+    img.style.height = `${size.height}px`;
+    img.style.maxWidth = 'none';
+    img.style.margin = `${-top}px 0 0 0`;
+    slice.appendChild(img);
+  }
+
+  return slice;
+}
+
+/**
+ * Clone an SVG showing only a band of its drawing, by moving its viewBox.
+ * The band is mapped through the viewport the drawing is fitted into
+ * (preserveAspectRatio, letterboxed by default), and the slice stretches its
+ * viewBox exactly over its box so the slices line up.
+ */
+function sliceSVG(
+  svg: SVGSVGElement,
+  top: number,
+  height: number,
+  size: { width: number; height: number }
+): SVGSVGElement {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const [x, y, width, boxHeight] = (svg.getAttribute('viewBox') || `0 0 ${size.width} ${size.height}`)
+    .split(/[\s,]+/)
+    .map(Number);
+
+  const fit = getViewBoxFit(svg.getAttribute('preserveAspectRatio'), width, boxHeight, size);
+
+  // Rendered pixels -> drawing units
+  const left = x - fit.offsetX / fit.scaleX;
+  const bandTop = y + (top - fit.offsetY) / fit.scaleY;
+
+  clone.setAttribute('viewBox', `${left} ${bandTop} ${size.width / fit.scaleX} ${height / fit.scaleY}`);
+  clone.setAttribute('preserveAspectRatio', 'none');
+  clone.setAttribute('width', String(size.width));
+  clone.setAttribute('height', String(height));
+  clone.style.display = 'block';
+  return clone;
+}
+
+/**
+ * Scale and offset (in rendered pixels) of a viewBox fitted into the rendered
+ * box, following preserveAspectRatio ("xMidYMid meet" by default)
+ */
+function getViewBoxFit(
+  preserveAspectRatio: string | null,
+  width: number,
+  height: number,
+  size: { width: number; height: number }
+): { scaleX: number; scaleY: number; offsetX: number; offsetY: number } {
+  const [align = 'xMidYMid', meetOrSlice = 'meet'] = (preserveAspectRatio || '').trim().split(/\s+/).filter(Boolean);
+  const scaleX = size.width / width;
+  const scaleY = size.height / height;
+
+  if (align === 'none') {
+    return { scaleX, scaleY, offsetX: 0, offsetY: 0 };
+  }
+
+  const scale = meetOrSlice === 'slice' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+  const position = (alignment: string, free: number): number =>
+    alignment === 'Min' ? 0 : alignment === 'Max' ? free : free / 2;
+
+  return {
+    scaleX: scale,
+    scaleY: scale,
+    offsetX: position(align.substring(1, 4), size.width - width * scale),
+    offsetY: position(align.substring(5, 8), size.height - height * scale),
+  };
+}
+
+/**
+ * Image of a canvas's bitmap, at the canvas's size, keeping its class and inline style
+ */
+function createCanvasImage(canvas: HTMLCanvasElement): HTMLImageElement {
+  const img = document.createElement('img');
+  const bitmap = getCanvasBitmap(canvas);
+  if (bitmap) img.src = bitmap;
+  img.alt = canvas.getAttribute('aria-label') || '';
+  img.width = canvas.width;
+  img.height = canvas.height;
+  if (canvas.className) img.className = canvas.className;
+  const style = canvas.getAttribute('style');
+  if (style) img.setAttribute('style', style);
+  return img;
+}
@@ -0,0 +1,200 @@
+/**
+ * DOM splitting utilities
+ *
+ * Content is split with DOM Ranges rather than by rebuilding text, so
+ * inline elements that straddle a split point (<strong>, <a href>, <code>,
+ * <span class>...) are cloned onto both halves with their attributes.
+ */
+
+/**
+ * A position inside a text node
+ */
+export interface TextBoundary {
+  node: Text;
+  offset: number;
+}
+
+/**
+ * Collect the start position of every word inside an element, in document order.
+ * Inline markup between two letters (e.g. a footnote marker) does not start a new word.
+ */
+export function getWordBoundaries(root: HTMLElement): TextBoundary[] {
+  const boundaries: TextBoundary[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT | NodeFilter.SHOW_ELEMENT);
+  let afterSpace = true;
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node.nodeType !== Node.TEXT_NODE) {
+      // A line break separates words even without whitespace around it
+      if ((node as Element).tagName === 'BR') afterSpace = true;
+      continue;
+    }
+
+    const text = (node as Text).data;
+    for (let i = 0; i < text.length; i++) {
+      const isSpace = /\s/.test(text[i]);
+      if (!isSpace && afterSpace) {
+        boundaries.push({ node: node as Text, offset: i });
+      }
+      afterSpace = isSpace;
+    }
+  }
+
+  return boundaries;
+}
+
+/**
+ * A source line: from the position after the previous newline to the next newline.
+ * A null boundary means the start (or end) of the element.
+ */
+export interface LineBoundary {
+  start: TextBoundary | null;
+  end: TextBoundary | null;
+}
+
+/**
+ * Collect the lines of preformatted content, split at newline characters
+ * wherever they are in the markup (including inside highlight tokens)
+ */
+export function getLineBoundaries(root: HTMLElement): LineBoundary[] {
+  const lines: LineBoundary[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  let start: TextBoundary | null = null;
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const text = node as Text;
+    for (let i = text.data.indexOf('\n'); i !== -1; i = text.data.indexOf('\n', i + 1)) {
+      lines.push({ start, end: { node: text, offset: i } });
+      start = { node: text, offset: i + 1 };
+    }
+  }
+
+  lines.push({ start, end: null });
+  return lines;
+}
+
+/**
+ * Clone lines [from, to) of preformatted content. Tokens that span several
+ * lines are closed at the end of the fragment and reopened at its start.
+ */
+export function cloneLines(
+  root: HTMLElement,
+  lines: LineBoundary[],
+  from: number,
+  to: number
+): DocumentFragment {
+  return cloneRangeContents(root, lines[from].start, lines[to - 1].end);
+}
+
+/**
+ * Clone the content of an element between two boundaries into a shallow copy
+ * of that element. A null boundary means the start (or end) of the element.
+ */
+export function cloneBetween(
+  root: HTMLElement,
+  start: TextBoundary | null,
+  end: TextBoundary | null
+): HTMLElement {
+  const clone = root.cloneNode(false) as HTMLElement;
+  clone.appendChild(cloneRangeContents(root, start, end));
+  return clone;
+}
+
+/**
+ * Clone the content of an element between two boundaries.
+ * Partially selected elements are cloned shallowly around their selected part.
+ */
+export function cloneRangeContents(
+  root: HTMLElement,
+  start: TextBoundary | null,
+  end: TextBoundary | null
+): DocumentFragment {
+  const range = document.createRange();
+
+  if (start) {
+    range.setStart(start.node, start.offset);
+  } else {
+    range.setStart(root, 0);
+  }
+
+  if (end) {
+    range.setEnd(end.node, end.offset);
+  } else {
+    range.setEnd(root, root.childNodes.length);
+  }
+
+  return range.cloneContents();
+}
+
+/**
+ * A rendered line of text
+ */
+export interface LineBox {
+  firstWord: number;  // Index of the first word boundary on this line
+  top: number;        // Viewport coordinates
+  bottom: number;
+}
+
+/**
+ * Group word boundaries into rendered lines using Range client rects.
+ * Returns an empty array when the content has no layout (e.g. detached or no rect support).
+ */
+export function getLineBoxes(words: TextBoundary[]): LineBox[] {
+  const lines: LineBox[] = [];
+  const range = document.createRange();
+
+  for (let i = 0; i < words.length; i++) {
+    const { node, offset } = words[i];
+    range.setStart(node, offset);
+    range.setEnd(node, offset + 1);
+
+    const rect = typeof range.getClientRects === 'function' ? range.getClientRects()[0] : undefined;
+    if (!rect || rect.height === 0) continue;
+
+    const last = lines[lines.length - 1];
+
+    // A word starts a new line when it begins below the middle of the current one
+    if (!last || rect.top > (last.top + last.bottom) / 2) {
+      lines.push({ firstWord: i, top: rect.top, bottom: rect.bottom });
+    } else {
+      last.bottom = Math.max(last.bottom, rect.bottom);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Get the number each <li> of an ordered list is shown with, following the HTML
+ * rules for `start`, `reversed` and `<li value>`. Also returns the number the
+ * next item would get.
+ */
+export function getListItemOrdinals(list: HTMLElement): {
+  ordinals: Map<HTMLElement, number>;
+  next: number;
+} {
+  const items = Array.from(list.children).filter(child => child.tagName === 'LI') as HTMLElement[];
+  const reversed = list.hasAttribute('reversed');
+  const start = parseInt(list.getAttribute('start') ?? '', 10);
+
+  const ordinals = new Map<HTMLElement, number>();
+  let ordinal = Number.isNaN(start) ? (reversed ? items.length : 1) : start;
+
+  for (const item of items) {
+    const value = parseInt(item.getAttribute('value') ?? '', 10);
+    if (!Number.isNaN(value)) ordinal = value;
+    ordinals.set(item, ordinal);
+    ordinal += reversed ? -1 : 1;
+  }
+
+  return { ordinals, next: ordinal };
+}
+
+/**
+ * Get the number a list item is shown with, or null when it isn't in an ordered list
+ */
+export function getListItemOrdinal(item: HTMLElement): number | null {
+  const list = item.parentElement;
+  if (!list || list.tagName !== 'OL') return null;
+  return getListItemOrdinals(list).ordinals.get(item) ?? null;
+}
@@ -0,0 +1,558 @@
+/**
+ * Table splitting utilities
+ *
+ * Rows tied together by rowspan form one unit that is kept on a single page.
+ * A unit taller than a page is split between its rows, clipping the spanning
+ * cells and re-emitting them on the continuation rows. A single row taller
+ * than a page is split between words inside each of its cells. A table wider
+ * than the page can be split into column bands, each repeating the key columns.
+ */
+
+import { getRowspanGroups } from './heuristics.js';
+import type { TextBoundary } from './split.js';
+import { cloneBetween } from './split.js';
+
+/**
+ * Rows that must stay together (a single row, a rowspan group or a keep-together tbody)
+ */
+export interface RowUnit {
+  rows: HTMLTableRowElement[];
+  // Row group the rows come from (null: rows directly in the table)
+  body: HTMLTableSectionElement | null;
+}
+
+/**
+ * Parts of a table that aren't split, only repeated on (or limited to) some fragments
+ */
+export interface TableParts {
+  caption: HTMLElement | null;
+  colgroups: HTMLElement[];
+  thead: HTMLElement | null;
+  tfoot: HTMLElement | null;
+  // Column widths of the whole table (empty until measured)
+  columnWidths: number[];
+  // Running totals, for tables with summed columns
+  carry: CarryForward | null;
+}
+
+/**
+ * Get the caption, column groups, header and footer of a table
+ */
+export function getTableParts(table: HTMLTableElement): TableParts {
+  return {
+    caption: table.querySelector(':scope > caption'),
+    colgroups: Array.from(table.querySelectorAll<HTMLElement>(':scope > colgroup')),
+    thead: table.querySelector(':scope > thead'),
+    tfoot: table.querySelector(':scope > tfoot'),
+    columnWidths: [],
+    carry: null,
+  };
+}
+
+/**
+ * Group the rows of all tbody row groups into units, in order
+ */
+export function getRowUnits(
+  table: HTMLTableElement,
+  isKeptTogether: (body: HTMLTableSectionElement) => boolean
+): RowUnit[] {
+  // Rows outside a tbody only exist in tables built by script
+  if (table.tBodies.length === 0) {
+    const rows = Array.from(table.querySelectorAll<HTMLTableRowElement>(':scope > tr'));
+    return rows.map(row => ({ rows: [row], body: null }));
+  }
+
+  const bodyRows = Array.from(table.tBodies).flatMap(body => Array.from(body.rows));
+  const grouped = new Map<HTMLTableRowElement, HTMLTableRowElement[]>();
+
+  for (const group of getRowspanGroups(table)) {
+    const rows = group.map(index => bodyRows[index]);
+    for (const row of rows) {
+      grouped.set(row, rows);
+    }
+  }
+
+  const units: RowUnit[] = [];
+
+  for (const body of Array.from(table.tBodies)) {
+    const rows = Array.from(body.rows);
+    if (rows.length === 0) continue;
+
+    if (isKeptTogether(body)) {
+      units.push({ rows, body });
+      continue;
+    }
+
+    for (const row of rows) {
+      const group = grouped.get(row);
+      if (!group) {
+        units.push({ rows: [row], body });
+      } else if (group[0] === row) {
+        units.push({ rows: group, body });
+      }
+    }
+  }
+
+  return units;
+}
+
+/**
+ * Number of rows a cell spans within a unit, `available` being the rows left from its own
+ */
+function getRowSpan(cell: HTMLTableCellElement, available: number): number {
+  const rowspan = parseInt(cell.getAttribute('rowspan') || '1');
+  if (rowspan === 0) return available;
+  return Math.max(1, Math.min(rowspan || 1, available));
+}
+
+/**
+ * Number of columns a cell (or <col>) spans
+ */
+function getColSpan(el: HTMLElement): number {
+  return Math.max(1, parseInt(el.getAttribute(el.tagName === 'COL' ? 'span' : 'colspan') || '1') || 1);
+}
+
+/**
+ * Get the column each cell of a run of rows starts in, accounting for rowspan and colspan
+ */
+function getCellColumns(rows: HTMLTableRowElement[]): Map<HTMLTableCellElement, number> {
+  const occupied = rows.map(() => new Set<number>());
+  const columns = new Map<HTMLTableCellElement, number>();
+
+  rows.forEach((row, rowIndex) => {
+    let column = 0;
+
+    for (const cell of Array.from(row.cells)) {
+      while (occupied[rowIndex].has(column)) column++;
+      columns.set(cell, column);
+
+      const colspan = getColSpan(cell);
+      const rowspan = getRowSpan(cell, rows.length - rowIndex);
+      for (let r = rowIndex; r < rowIndex + rowspan; r++) {
+        for (let c = column; c < column + colspan; c++) {
+          occupied[r].add(c);
+        }
+      }
+
+      column += colspan;
+    }
+  });
+
+  return columns;
+}
+
+/**
+ * Split the rows of a unit after the first `count`. Returns clones of both parts:
+ * cells spanning across the split get their rowspan clipped in the first part,
+ * and are re-emitted with the rest of their rowspan in the first row of the second.
+ */
+export function splitRowUnit(
+  rows: HTMLTableRowElement[],
+  count: number
+): { before: HTMLTableRowElement[]; after: HTMLTableRowElement[] } {
+  const columns = getCellColumns(rows);
+  const before = rows.slice(0, count).map(row => row.cloneNode(true) as HTMLTableRowElement);
+  const after = rows.slice(count).map(row => row.cloneNode(true) as HTMLTableRowElement);
+  if (after.length === 0) return { before, after };
+
+  // Cells of the first continuation row, by column
+  const firstRow = Array.from(rows[count].cells).map((cell, index) => ({
+    column: columns.get(cell)!,
+    cell: after[0].cells[index],
+  }));
+
+  for (let rowIndex = 0; rowIndex < count; rowIndex++) {
+    Array.from(rows[rowIndex].cells).forEach((cell, index) => {
+      const rowspan = getRowSpan(cell, rows.length - rowIndex);
+      if (rowIndex + rowspan <= count) return;
+
+      before[rowIndex].cells[index].setAttribute('rowspan', String(count - rowIndex));
+
+      const carried = cell.cloneNode(true) as HTMLTableCellElement;
+      carried.setAttribute('rowspan', String(rowIndex + rowspan - count));
+      // Already added to the running totals where it started
+      carried.removeAttribute(SUM_COLUMN_ATTR);
+      firstRow.push({ column: columns.get(cell)!, cell: carried });
+    });
+  }
+
+  // Put the re-emitted cells in column order
+  firstRow.sort((a, b) => a.column - b.column);
+  for (const { cell } of firstRow) {
+    after[0].appendChild(cell);
+  }
+
+  return { before, after };
+}
+
+/**
+ * Split a single row between words. Each cell is cut at its own boundary
+ * (null keeps the whole cell in the first part). Cells get fixed widths,
+ * so both parts keep the column widths of the original row.
+ */
+export function splitRowAt(
+  row: HTMLTableRowElement,
+  cuts: (TextBoundary | null)[],
+  widths: number[]
+): { before: HTMLTableRowElement; after: HTMLTableRowElement } {
+  const before = row.cloneNode(false) as HTMLTableRowElement;
+  const after = row.cloneNode(false) as HTMLTableRowElement;
+
+  Array.from(row.cells).forEach((cell, index) => {
+    const cut = cuts[index];
+    const first = cut ? cloneBetween(cell, null, cut) : cell.cloneNode(true) as HTMLElement;
+    const rest = cut ? cloneBetween(cell, cut, null) : cell.cloneNode(false) as HTMLElement;
+
+    if (widths[index] > 0) {
+      for (const part of [first, rest]) {
+        part.style.boxSizing = 'border-box';
+        part.style.width = `${widths[index]}px`;
+      }
+    }
+
+    before.appendChild(first);
+    after.appendChild(rest);
+  });
+
+  return { before, after };
+}
+
+/**
+ * Measure the width of every column of a laid out table.
+ * Returns an empty array when the table has no layout.
+ */
+export function measureColumnWidths(table: HTMLTableElement): number[] {
+  const columns = getCellColumns(Array.from(table.rows));
+  const widths: number[] = [];
+  const spanning: HTMLTableCellElement[] = [];
+
+  for (const [cell, column] of columns) {
+    if (getColSpan(cell) > 1) {
+      spanning.push(cell);
+    } else if (widths[column] === undefined) {
+      widths[column] = cell.getBoundingClientRect().width;
+    }
+  }
+
+  // Columns only covered by colspan cells share what is left of those cells
+  for (const cell of spanning) {
+    const first = columns.get(cell)!;
+    const range = Array.from({ length: getColSpan(cell) }, (_, i) => first + i);
+    const missing = range.filter(column => widths[column] === undefined);
+    if (missing.length === 0) continue;
+
+    const known = range.reduce((sum, column) => sum + (widths[column] ?? 0), 0);
+    const share = Math.max(0, cell.getBoundingClientRect().width - known) / missing.length;
+    for (const column of missing) {
+      widths[column] = share;
+    }
+  }
+
+  const filled = Array.from(widths, width => width ?? 0);
+  return filled.some(width => width > 0) ? filled : [];
+}
+
+/**
+ * Give a table fragment fixed column widths, so it lines up with the other fragments.
+ * Sets the widths on the existing <col> elements, or adds a <colgroup>.
+ */
+export function applyColumnWidths(fragment: HTMLTableElement, widths: number[]): void {
+  const cols = Array.from(fragment.querySelectorAll<HTMLElement>(':scope > colgroup > col'));
+
+  if (cols.length > 0) {
+    let column = 0;
+    for (const col of cols) {
+      const span = getColSpan(col);
+      const width = widths.slice(column, column + span).reduce((sum, w) => sum + w, 0);
+      col.style.width = `${width}px`;
+      column += span;
+    }
+  } else {
+    const colgroup = document.createElement('colgroup');
+    for (const width of widths) {
+      const col = document.createElement('col');
+      col.style.width = `${width}px`;
+      colgroup.appendChild(col);
+    }
+    // After the caption, before any row group
+    fragment.insertBefore(colgroup, fragment.querySelector(':scope > thead, :scope > tbody, :scope > tfoot, :scope > tr'));
+  }
+
+  fragment.style.tableLayout = 'fixed';
+  fragment.style.width = `${widths.reduce((sum, w) => sum + w, 0)}px`;
+}
+
+/**
+ * Get the key columns of a table, repeated in every column band: columns with
+ * `data-folio-sticky-col` on their <col> or on a cell of the first row, or listed
+ * (1-based) in `data-folio-sticky-col="1 2"` on the table
+ */
+export function getStickyColumns(table: HTMLTableElement): Set<number> {
+  const sticky = new Set<number>();
+
+  for (const index of (table.getAttribute('data-folio-sticky-col') || '').split(/[\s,]+/)) {
+    const column = parseInt(index);
+    if (column > 0) sticky.add(column - 1);
+  }
+
+  let column = 0;
+  for (const col of Array.from(table.querySelectorAll<HTMLElement>(':scope > colgroup > col'))) {
+    const span = getColSpan(col);
+    if (col.hasAttribute('data-folio-sticky-col')) {
+      for (let c = column; c < column + span; c++) sticky.add(c);
+    }
+    column += span;
+  }
+
+  const firstRow = table.rows[0];
+  if (firstRow) {
+    for (const [cell, first] of getCellColumns([firstRow])) {
+      if (!cell.hasAttribute('data-folio-sticky-col')) continue;
+      for (let c = first; c < first + getColSpan(cell); c++) sticky.add(c);
+    }
+  }
+
+  return sticky;
+}
+
+/**
+ * Group the columns of a table too wide for the page into bands no wider than `maxWidth`.
+ * Every band starts with the sticky columns; the other columns are packed in order.
+ * A column that doesn't fit even on its own still gets a band.
+ */
+export function getColumnBands(widths: number[], sticky: Set<number>, maxWidth: number): number[][] {
+  const stickyColumns = widths.map((_, column) => column).filter(column => sticky.has(column));
+  const stickyWidth = stickyColumns.reduce((sum, column) => sum + widths[column], 0);
+
+  const bands: number[][] = [];
+  let band: number[] = [];
+  let bandWidth = stickyWidth;
+
+  widths.forEach((width, column) => {
+    if (sticky.has(column)) return;
+
+    if (band.length > 0 && bandWidth + width > maxWidth) {
+      bands.push(band);
+      band = [];
+      bandWidth = stickyWidth;
+    }
+
+    band.push(column);
+    bandWidth += width;
+  });
+
+  if (band.length > 0) bands.push(band);
+
+  return bands.map(columns => [...stickyColumns, ...columns].sort((a, b) => a - b));
+}
+
+/**
+ * Clone a table keeping only some of its columns. Cells spanning several columns
+ * keep the span of the columns they have in the band; <col> elements are split
+ * per column. Summed columns (`data-folio-sum-columns`) are renumbered.
+ */
+export function cloneColumnBand(table: HTMLTableElement, columns: number[]): HTMLTableElement {
+  const band = table.cloneNode(true) as HTMLTableElement;
+  const kept = new Set(columns);
+  const cellColumns = getCellColumns(Array.from(band.rows));
+
+  for (const [cell, first] of cellColumns) {
+    const span = getColSpan(cell);
+    let inBand = 0;
+    for (let c = first; c < first + span; c++) {
+      if (kept.has(c)) inBand++;
+    }
+
+    if (inBand === 0) {
+      cell.remove();
+    } else if (inBand !== span) {
+      cell.colSpan = inBand;
+    }
+  }
+
+  for (const colgroup of Array.from(band.querySelectorAll<HTMLElement>(':scope > colgroup'))) {
+    const cols = Array.from(colgroup.querySelectorAll<HTMLElement>(':scope > col'));
+    if (cols.length === 0) {
+      colgroup.remove();
+      continue;
+    }
+
+    let column = 0;
+    for (const col of cols) {
+      for (let c = column; c < column + getColSpan(col); c++) {
+        if (!kept.has(c)) continue;
+        const single = col.cloneNode(false) as HTMLElement;
+        single.removeAttribute('span');
+        colgroup.insertBefore(single, col);
+      }
+      column += getColSpan(col);
+      col.remove();
+    }
+
+    if (!colgroup.firstElementChild) colgroup.remove();
+  }
+
+  const summed = table.getAttribute('data-folio-sum-columns');
+  if (summed !== null) {
+    const renumbered = summed.split(/[\s,]+/)
+      .map(index => columns.indexOf(parseInt(index) - 1) + 1)
+      .filter(index => index > 0);
+    band.setAttribute('data-folio-sum-columns', renumbered.join(' '));
+  }
+  band.removeAttribute('data-folio-sticky-col');
+
+  return band;
+}
+
+/**
+ * Running totals of a split table: summed columns get a "carried forward" row at the
+ * bottom of each fragment and a "brought forward" row at the top of the next one.
+ *
+ * Configured with data attributes:
+ * - `data-folio-sum` on a header cell, or `data-folio-sum-columns="3 4"` (1-based) on the table
+ * - `data-folio-carried-label` / `data-folio-brought-label` on the table
+ * - `data-folio-sum-locale` / `data-folio-sum-decimals` on the table, for number formatting
+ */
+export interface CarryForward {
+  columns: number[];       // Summed columns (0-based)
+  columnCount: number;
+  carriedLabel: string;
+  broughtLabel: string;
+  decimalSeparator: string;
+  format: (value: number, column: number) => string;
+  totals: Map<number, number>;    // Sums of the rows placed so far, by column
+  decimals: Map<number, number>;  // Most decimals seen in each column
+}
+
+/**
+ * Attribute marking the body cells of summed columns with their column (0-based),
+ * read back from the cloned rows of each fragment and removed from finished pages
+ */
+export const SUM_COLUMN_ATTR = 'data-folio-sum-column';
+
+/**
+ * Read the running totals configuration of a table, or null when no column is summed.
+ * Marks the body cells of the summed columns with SUM_COLUMN_ATTR.
+ */
+export function getCarryForward(
+  table: HTMLTableElement,
+  formatter?: (value: number, column: number, table: HTMLTableElement) => string
+): CarryForward | null {
+  const columns = getCellColumns(Array.from(table.rows));
+  const summed = new Set<number>();
+
+  for (const index of (table.getAttribute('data-folio-sum-columns') || '').split(/[\s,]+/)) {
+    const column = parseInt(index);
+    if (column > 0) summed.add(column - 1);
+  }
+  for (const [cell, column] of columns) {
+    if (cell.hasAttribute('data-folio-sum')) summed.add(column);
+  }
+
+  if (summed.size === 0) return null;
+
+  let columnCount = 0;
+  for (const [cell, column] of columns) {
+    columnCount = Math.max(columnCount, column + getColSpan(cell));
+  }
+
+  // Columns of the body cells, from each whole body: a fragment's rows alone
+  // lose the rowspans started in earlier fragments
+  for (const body of Array.from(table.tBodies)) {
+    for (const [cell, column] of getCellColumns(Array.from(body.rows))) {
+      if (summed.has(column)) cell.setAttribute(SUM_COLUMN_ATTR, String(column));
+    }
+  }
+
+  // Values are read with the author's locale (never the reader's), '.' by default;
+  // the totals are shown in the reader's locale unless one is set
+  const locale = table.getAttribute('data-folio-sum-locale') || undefined;
+  const fixedDecimals = parseInt(table.getAttribute('data-folio-sum-decimals') ?? '');
+  const decimalSeparator = locale
+    ? new Intl.NumberFormat(locale).formatToParts(1.1).find(part => part.type === 'decimal')?.value ?? '.'
+    : '.';
+
+  const carry: CarryForward = {
+    columns: [...summed].sort((a, b) => a - b),
+    columnCount,
+    carriedLabel: table.getAttribute('data-folio-carried-label') ?? 'Carried forward',
+    broughtLabel: table.getAttribute('data-folio-brought-label') ?? 'Brought forward',
+    decimalSeparator,
+    format: (value, column) => {
+      if (formatter) return formatter(value, column, table);
+      const decimals = Number.isNaN(fixedDecimals) ? carry.decimals.get(column) ?? 0 : fixedDecimals;
+      return new Intl.NumberFormat(locale, {
+        minimumFractionDigits: decimals,
+        maximumFractionDigits: decimals,
+      }).format(value);
+    },
+    totals: new Map(),
+    decimals: new Map(),
+  };
+
+  return carry;
+}
+
+/**
+ * Add the values of the summed columns of some rows to the running totals
+ */
+export function addToTotals(carry: CarryForward, rows: HTMLTableRowElement[]): void {
+  const cells = rows.flatMap(row => Array.from(row.querySelectorAll<HTMLTableCellElement>(`:scope > [${SUM_COLUMN_ATTR}]`)));
+
+  for (const cell of cells) {
+    const column = parseInt(cell.getAttribute(SUM_COLUMN_ATTR)!);
+
+    const parsed = parseNumber(cell.textContent || '', carry.decimalSeparator);
+    if (!parsed) continue;
+
+    carry.totals.set(column, (carry.totals.get(column) ?? 0) + parsed.value);
+    carry.decimals.set(column, Math.max(carry.decimals.get(column) ?? 0, parsed.decimals));
+  }
+}
+
+/**
+ * Create a "carried forward" or "brought forward" row with the current totals.
+ * The label spans the columns before the first summed one.
+ */
+export function createCarryRow(carry: CarryForward, kind: 'carried' | 'brought'): HTMLTableRowElement {
+  const row = document.createElement('tr');
+  row.className = `folio-carry-row folio-${kind}-forward`;
+
+  const label = kind === 'carried' ? carry.carriedLabel : carry.broughtLabel;
+  const firstSummed = carry.columns[0];
+
+  if (firstSummed > 0) {
+    const labelCell = document.createElement('td');
+    labelCell.colSpan = firstSummed;
+    labelCell.textContent = label;
+    row.appendChild(labelCell);
+  }
+
+  for (let column = firstSummed; column < carry.columnCount; column++) {
+    const cell = document.createElement('td');
+    if (carry.columns.includes(column)) {
+      const value = carry.format(carry.totals.get(column) ?? 0, column);
+      cell.className = 'folio-carry-sum';
+      cell.textContent = firstSummed === 0 && column === 0 ? `${label}: ${value}` : value;
+    }
+    row.appendChild(cell);
+  }
+
+  return row;
+}
+
+/**
+ * Parse a number from cell text ("1,234.50", "-12", "(300)" for negatives),
+ * using the given decimal separator. Returns null when there are no digits.
+ */
+function parseNumber(text: string, decimalSeparator: string): { value: number; decimals: number } | null {
+  const trimmed = text.trim();
+  if (!/\d/.test(trimmed)) return null;
+
+  const negative = /^\(.*\)$/.test(trimmed) || /^[^\d]*[-−]/.test(trimmed);
+  const [integer, fraction = ''] = trimmed.split(decimalSeparator);
+  const digits = (part: string): string => part.replace(/\D/g, '');
+
+  const value = parseFloat(`${digits(integer) || '0'}.${digits(fraction) || '0'}`);
+  return { value: negative ? -value : value, decimals: digits(fraction).length };
+}
@@ -0,0 +1,190 @@
+/**
+ * Back-of-book index
+ *
+ * Terms are marked with `data-folio-index="term"` (or `"term!subterm"` for a
+ * sub-entry; an empty value uses the element's text) or with `<dfn>` (its
+ * `title`, or its text). A `<folio-index>` element is filled with the terms in
+ * alphabetical order, grouped by first letter, each with the pages it occurs
+ * on, consecutive pages merged into ranges ("12–14"). Like the table of
+ * contents, page numbers come from the previous layout pass.
+ */
+
+const INDEX_SELECTOR = 'folio-index';
+const TERM_SELECTOR = '[data-folio-index], dfn';
+
+interface IndexEntry {
+  term: string;
+  // Ids of the occurrences, in document order
+  occurrences: string[];
+  subentries: Map<string, IndexEntry>;
+}
+
+/**
+ * Whether a container has an index to fill
+ */
+export function hasIndex(root: HTMLElement | DocumentFragment): boolean {
+  return root.querySelector(INDEX_SELECTOR) !== null;
+}
+
+/**
+ * Fill each index placeholder of a container with the terms marked in it.
+ * Occurrences without an id get one, so their page can be found after layout.
+ * `pageNumbers` maps element ids to pages (empty before the first layout).
+ */
+export function buildIndex(root: HTMLElement | DocumentFragment, pageNumbers: Map<string, number>): void {
+  const placeholders = Array.from(root.querySelectorAll<HTMLElement>(INDEX_SELECTOR));
+  if (placeholders.length === 0) return;
+
+  const entries = collectEntries(root);
+
+  for (const placeholder of placeholders) {
+    placeholder.style.display = 'block';
+
+    for (const [letter, group] of groupByLetter(entries)) {
+      const section = document.createElement('div');
+      section.className = 'folio-index-group';
+
+      const heading = document.createElement('div');
+      heading.className = 'folio-index-letter';
+      heading.textContent = letter;
+
+      section.append(heading, createList(group, pageNumbers));
+      placeholder.appendChild(section);
+    }
+  }
+}
+
+/**
+ * Gather the marked terms into entries, by term
+ */
+function collectEntries(root: HTMLElement | DocumentFragment): Map<string, IndexEntry> {
+  const entries = new Map<string, IndexEntry>();
+  const terms = Array.from(root.querySelectorAll<HTMLElement>(TERM_SELECTOR))
+    .filter(el => !el.closest(`${INDEX_SELECTOR}, folio-toc, [data-folio-toc]`));
+
+  terms.forEach((el, index) => {
+    const path = getTermPath(el);
+    if (path.length === 0) return;
+    if (!el.id) el.id = `folio-index-${index + 1}`;
+
+    // Walk down "term!subterm!..." creating the entries on the way
+    let level = entries;
+    let entry: IndexEntry | undefined;
+    for (const term of path) {
+      const key = term.toLocaleLowerCase();
+      entry = level.get(key);
+      if (!entry) {
+        entry = { term, occurrences: [], subentries: new Map() };
+        level.set(key, entry);
+      }
+      level = entry.subentries;
+    }
+    entry!.occurrences.push(el.id);
+  });
+
+  return entries;
+}
+
+/**
+ * Term of a marked element, split into its sub-entry levels
+ */
+function getTermPath(el: HTMLElement): string[] {
+  const value = el.getAttribute('data-folio-index')
+    || (el.tagName === 'DFN' && el.getAttribute('title'))
+    || el.textContent
+    || '';
+
+  return value.split('!')
+    .map(term => term.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+/**
+ * Sort entries alphabetically
+ */
+function sortEntries(entries: Map<string, IndexEntry>): IndexEntry[] {
+  return Array.from(entries.values())
+    .sort((a, b) => a.term.localeCompare(b.term, undefined, { sensitivity: 'base' }));
+}
+
+/**
+ * Sort entries and group them by their first letter (non-letters under "#")
+ */
+function groupByLetter(entries: Map<string, IndexEntry>): Map<string, IndexEntry[]> {
+  const groups = new Map<string, IndexEntry[]>();
+
+  for (const entry of sortEntries(entries)) {
+    const first = entry.term.charAt(0).toLocaleUpperCase();
+    const letter = first.toLocaleLowerCase() !== first ? first : '#';
+    if (!groups.has(letter)) groups.set(letter, []);
+    groups.get(letter)!.push(entry);
+  }
+
+  return groups;
+}
+
+/**
+ * Create the list of entries, with their pages and sub-entries
+ */
+function createList(entries: IndexEntry[], pageNumbers: Map<string, number>): HTMLUListElement {
+  const list = document.createElement('ul');
+  list.className = 'folio-index-list';
+  list.style.cssText = 'list-style: none; padding-left: 0; margin: 0;';
+
+  for (const entry of entries) {
+    const item = document.createElement('li');
+    item.className = 'folio-index-entry';
+
+    const term = document.createElement('span');
+    term.className = 'folio-index-term';
+    term.textContent = entry.term;
+    item.appendChild(term);
+
+    const pages = createPageRanges(entry.occurrences, pageNumbers);
+    if (pages.childNodes.length > 0) item.append(', ', pages);
+
+    // Keep an entry's term and pages together; only sub-entry lists may split
+    if (entry.subentries.size === 0) item.style.breakInside = 'avoid';
+
+    if (entry.subentries.size > 0) {
+      const sublist = createList(sortEntries(entry.subentries), pageNumbers);
+      sublist.style.paddingLeft = '1.5em';
+      item.appendChild(sublist);
+    }
+    list.appendChild(item);
+  }
+
+  return list;
+}
+
+/**
+ * Create the page numbers of the occurrences of a term, consecutive pages
+ * merged into ranges, each linking to the first occurrence on its page
+ */
+function createPageRanges(occurrences: string[], pageNumbers: Map<string, number>): HTMLElement {
+  const pages = document.createElement('span');
+  pages.className = 'folio-index-pages';
+
+  // First occurrence on each page
+  const firstOnPage = new Map<number, string>();
+  for (const id of occurrences) {
+    const page = pageNumbers.get(id);
+    if (page !== undefined && !firstOnPage.has(page)) firstOnPage.set(page, id);
+  }
+
+  const sorted = Array.from(firstOnPage.keys()).sort((a, b) => a - b);
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+    const end = sorted[i];
+
+    const link = document.createElement('a');
+    link.setAttribute('href', `#${firstOnPage.get(start)}`);
+    link.textContent = start === end ? String(start) : `${start}–${end}`;
+
+    if (pages.childNodes.length > 0) pages.append(', ');
+    pages.appendChild(link);
+  }
+
+  return pages;
+}
@@ -0,0 +1,103 @@
+/**
+ * Table of contents
+ *
+ * A `<folio-toc>` element or `data-folio-toc` container is filled with the
+ * headings of the document, each linking to its heading and showing the page it
+ * landed on. Page numbers are only known after layout, and the list itself takes
+ * room, so <folio-pages> lays out again with the numbers of the previous pass
+ * until they no longer change.
+ */
+
+const TOC_SELECTOR = 'folio-toc, [data-folio-toc]';
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6';
+
+/**
+ * Whether a container has a table of contents to fill
+ */
+export function hasTableOfContents(root: HTMLElement | DocumentFragment): boolean {
+  return root.querySelector(TOC_SELECTOR) !== null;
+}
+
+/**
+ * Give every heading of a container without an id one, so tables of contents
+ * and outlines can link to them
+ */
+export function assignHeadingIds(root: HTMLElement | DocumentFragment): void {
+  Array.from(root.querySelectorAll<HTMLElement>(HEADING_SELECTOR)).forEach((heading, index) => {
+    if (!heading.id) heading.id = `folio-heading-${index + 1}`;
+  });
+}
+
+/**
+ * Fill each table of contents of a container with its headings, up to the
+ * level in its `depth` (or `data-folio-toc-depth`) attribute, 3 by default.
+ * Headings without an id get one, so entries can link to them.
+ * `pageNumbers` maps element ids to pages (empty before the first layout).
+ */
+export function buildTableOfContents(root: HTMLElement | DocumentFragment, pageNumbers: Map<string, number>): void {
+  const tocs = Array.from(root.querySelectorAll<HTMLElement>(TOC_SELECTOR));
+  if (tocs.length === 0) return;
+
+  const headings = Array.from(root.querySelectorAll<HTMLElement>(HEADING_SELECTOR))
+    .filter(heading => !heading.closest(TOC_SELECTOR) && !heading.hasAttribute('data-folio-toc-skip'));
+
+  assignHeadingIds(root);
+
+  for (const toc of tocs) {
+    const depth = parseInt(toc.getAttribute('depth') ?? toc.getAttribute('data-folio-toc-depth') ?? '') || 3;
+
+    const list = document.createElement('ul');
+    list.className = 'folio-toc-list';
+    list.style.cssText = 'list-style: none; padding: 0; margin: 0;';
+
+    for (const heading of headings) {
+      const level = parseInt(heading.tagName.substring(1));
+      if (level > depth) continue;
+      list.appendChild(createEntry(heading, level, pageNumbers.get(heading.id)));
+    }
+
+    // <folio-toc> isn't a registered element and would lay out inline
+    if (toc.tagName === 'FOLIO-TOC') toc.style.display = 'block';
+    toc.appendChild(list);
+  }
+}
+
+/**
+ * Create the entry of a heading: its text, a dotted leader and its page number
+ */
+function createEntry(heading: HTMLElement, level: number, page: number | undefined): HTMLLIElement {
+  const entry = document.createElement('li');
+  entry.className = `folio-toc-entry folio-toc-level-${level}`;
+  entry.style.cssText = `display: flex; align-items: baseline; padding-left: ${(level - 1) * 1.5}em;`;
+
+  const link = document.createElement('a');
+  link.className = 'folio-toc-title';
+  link.setAttribute('href', `#${heading.id}`);
+  link.textContent = (heading.textContent || '').replace(/\s+/g, ' ').trim();
+
+  const leader = document.createElement('span');
+  leader.className = 'folio-toc-leader';
+  leader.style.cssText = 'flex: 1; border-bottom: 1px dotted currentColor; margin: 0 0.4em;';
+
+  const number = document.createElement('span');
+  number.className = 'folio-toc-page';
+  number.textContent = page !== undefined ? String(page) : '';
+
+  entry.append(link, leader, number);
+  return entry;
+}
+
+/**
+ * Map the ids of the elements on rendered pages to the page they start on
+ */
+export function getPageNumbers(pages: HTMLElement[]): Map<string, number> {
+  const pageNumbers = new Map<string, number>();
+
+  pages.forEach((page, index) => {
+    for (const el of Array.from(page.querySelectorAll('[id]'))) {
+      if (!pageNumbers.has(el.id)) pageNumbers.set(el.id, index + 1);
+    }
+  });
+
+  return pageNumbers;
+}
@@ -26,6 +26,39 @@ export type Orientation = 'portrait' | 'landscape';
  */
 export type OversizeStrategy = 'scale' | 'rotate' | 'clip';
 
+/**
+ * How paragraphs find their split point
+ * - 'line': after the last rendered line that fits (Range client rects)
+ * - 'word': after the last word that fits (binary search)
+ */
+export type TextBreakMode = 'line' | 'word';
+
+/**
+ * Where footnotes go
+ * - 'footnotes': at the bottom of the page with their reference (v2)
+ * - 'endnotes': in a notes section at the end of their chapter or the document
+ */
+export type FootnoteMode = 'footnotes' | 'endnotes';
+
+/**
+ * Running strings of a page, by name: the value in effect when the page starts,
+ * the first value set on the page (or the start value) and the value in effect
+ * when it ends
+ */
+export type RunningStrings = Record<string, { start: string; first: string; last: string }>;
+
+/**
+ * A heading of the paginated document, with the headings under it
+ */
+export interface OutlineEntry {
+  text: string;
+  level: number;
+  // Id of the heading (generated as folio-heading-N when it had none)
+  id: string;
+  page: number;
+  children: OutlineEntry[];
+}
+
 /**
  * Pagination options
  */
@@ -41,11 +74,16 @@ export interface PaginateOptions {
   orphanLines?: number;
   widowLines?: number;
   minContentLines?: number;
+  textBreakMode?: TextBreakMode;
 
   // Lists & Tables
   minItemsForSplit?: number;
   minRowsForSplit?: number;
   repeatTableHeader?: boolean;
+  repeatTableFooter?: boolean;
+  continuedTableCaption?: boolean;
+  formatTableSum?: (value: number, column: number, table: HTMLTableElement) => string;
+  splitWideTables?: boolean;
 
   // Visual
   enableLineWrapMarkers?: boolean;
@@ -56,6 +94,12 @@ export interface PaginateOptions {
 
   // Empty elements
   skipEmptyElements?: boolean;
+
+  // Notes
+  footnoteMode?: FootnoteMode;
+
+  // Running strings: name -> heading level setting it (e.g. { chapter: 1 })
+  runningHeadings?: Record<string, number>;
 }
 
 /**
@@ -71,13 +115,20 @@ export interface ResolvedOptions {
   orphanLines: number;
   widowLines: number;
   minContentLines: number;
+  textBreakMode: TextBreakMode;
   minItemsForSplit: number;
   minRowsForSplit: number;
   repeatTableHeader: boolean;
+  repeatTableFooter: boolean;
+  continuedTableCaption: boolean;
+  formatTableSum?: (value: number, column: number, table: HTMLTableElement) => string;
+  splitWideTables: boolean;
   enableLineWrapMarkers: boolean;
   oversizeStrategy: OversizeStrategy;
   enablePageRotation: boolean;
   skipEmptyElements: boolean;
+  footnoteMode: FootnoteMode;
+  runningHeadings: Record<string, number>;
 }
 
 /**
@@ -99,6 +150,7 @@ export interface MeasuredBlock {
   // Table-specific
   thead?: HTMLElement;
   theadHeight?: number;
+  columnWidths?: number[];  // Column widths of the whole table, applied to every fragment
 }
 
 /**
@@ -121,6 +173,8 @@ export interface Page {
   fragments: PageFragment[];
   height: number;
   orientation: Orientation;
+  // Set when the page is rendered by <folio-pages>
+  running?: RunningStrings;
 }
 
 /**
@@ -154,11 +208,17 @@ export const DEFAULT_OPTIONS: ResolvedOptions = {
   orphanLines: 2,
   widowLines: 2,
   minContentLines: 2,
+  textBreakMode: 'line',
   minItemsForSplit: 2,
   minRowsForSplit: 2,
   repeatTableHeader: false,
+  repeatTableFooter: false,
+  continuedTableCaption: false,
+  splitWideTables: false,
   enableLineWrapMarkers: true,
   oversizeStrategy: 'scale',
   enablePageRotation: true,
   skipEmptyElements: true,
+  footnoteMode: 'footnotes',
+  runningHeadings: {},
 };